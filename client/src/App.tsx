@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { useAuth } from "@/hooks/useAuth";
+import { useDocumentEvents } from "@/hooks/useDocumentEvents";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import Landing from "@/pages/landing";
@@ -14,6 +15,10 @@ import Upload from "@/pages/upload";
 import Documents from "@/pages/documents";
 import DocumentViewer from "@/pages/document-viewer";
 import Chat from "@/pages/chat";
+import Compare from "@/pages/compare";
+import Entities from "@/pages/entities";
+import EntityDetail from "@/pages/entity";
+import EntityTypes from "@/pages/entity-types";
 import Reports from "@/pages/reports";
 import NotFound from "@/pages/not-found";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -35,6 +40,9 @@ function LoadingScreen() {
 }
 
 function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
+  // Processing updates are pushed for as long as the user is signed in
+  useDocumentEvents();
+
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "4rem",
@@ -82,6 +90,10 @@ function Router() {
         <Route path="/documents" component={Documents} />
         <Route path="/documents/:id" component={DocumentViewer} />
         <Route path="/chat/:id" component={Chat} />
+        <Route path="/compare" component={Compare} />
+        <Route path="/entities" component={Entities} />
+        <Route path="/entities/:id" component={EntityDetail} />
+        <Route path="/entity-types" component={EntityTypes} />
         <Route path="/reports" component={Reports} />
         <Route component={NotFound} />
       </Switch>
@@ -26,6 +26,8 @@ import {
   FileText, 
   MessageSquare, 
   BarChart3,
+  GitCompare,
+  Network,
   ChevronUp,
   LogOut,
   User,
@@ -47,6 +49,16 @@ const navigationItems = [
     url: "/documents",
     icon: FileText,
   },
+  {
+    title: "Compare",
+    url: "/compare",
+    icon: GitCompare,
+  },
+  {
+    title: "Entities",
+    url: "/entities",
+    icon: Network,
+  },
   {
     title: "Chat",
     url: "/documents",
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { Batch, Document } from "@shared/mongo-schema";
+
+type BatchWithDocuments = Batch & { documents: Document[] };
+
+interface BatchProgressProps {
+  batchId: string;
+}
+
+function isInFlight(status?: string) {
+  return status === "pending" || status === "processing";
+}
+
+// Processing progress of the documents extracted from one ZIP archive
+export function BatchProgress({ batchId }: BatchProgressProps) {
+  const { data: batch } = useQuery<BatchWithDocuments>({
+    queryKey: ["/api/batches", batchId],
+  });
+
+  if (!batch) return null;
+
+  const total = batch.documents.length;
+  const finished = batch.documents.filter(doc => !isInFlight(doc.status)).length;
+  const failed = batch.documents.filter(doc => doc.status === "error").length;
+
+  return (
+    <div className="space-y-2 mt-2" data-testid={`batch-${batchId}`}>
+      <Progress value={total > 0 ? (finished / total) * 100 : 0} className="h-1.5" />
+      <p className="text-xs text-muted-foreground">
+        {finished} of {total} documents processed
+        {failed > 0 && ` • ${failed} failed`}
+        {batch.skipped.length > 0 && ` • ${batch.skipped.length} unsupported file(s) skipped`}
+      </p>
+      <ScrollArea className="max-h-40">
+        <div className="space-y-1">
+          {batch.documents.map(doc => (
+            <Link key={(doc as any)._id} href={`/documents/${(doc as any)._id}`}>
+              <div className="flex justify-between gap-2 text-xs cursor-pointer hover:underline">
+                <span className="truncate">
+                  {doc.folder ? `${doc.folder}/` : ""}{doc.originalName}
+                </span>
+                <span className="text-muted-foreground capitalize flex-shrink-0">{doc.status}</span>
+              </div>
+            </Link>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, Lock } from "lucide-react";
+
+interface DocumentPasswordFormProps {
+  documentId: string;
+  // Why the password is asked for: missing, or incorrect on the last attempt
+  message?: string;
+}
+
+// Asks for the password of an encrypted document and resumes processing with it
+export function DocumentPasswordForm({ documentId, message }: DocumentPasswordFormProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+
+  const passwordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/documents/${documentId}/password`, { password });
+      return res.json();
+    },
+    onSuccess: () => {
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not submit password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <form
+      className="max-w-sm mx-auto py-12 space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (password) passwordMutation.mutate();
+      }}
+      data-testid="form-document-password"
+    >
+      <div className="text-center">
+        <Lock className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+        <p className="font-medium">This document is password protected</p>
+        <p className="text-sm text-muted-foreground mt-1">
+          {message || "Enter its password to process it."}
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="document-password">Password</Label>
+        <Input
+          id="document-password"
+          type="password"
+          autoComplete="off"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          data-testid="input-document-password"
+        />
+        <p className="text-xs text-muted-foreground">
+          The password is only used to process this file and is not saved.
+        </p>
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!password || passwordMutation.isPending}
+        data-testid="button-submit-password"
+      >
+        {passwordMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Unlock and Process
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,151 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Mail, MessagesSquare, Paperclip } from "lucide-react";
+import { format } from "date-fns";
+import type { Document, EmailAddress, EmailMetadata } from "@shared/mongo-schema";
+
+interface EmailDetailsProps {
+  documentId: string;
+  email: EmailMetadata;
+}
+
+function formatAddresses(addresses: EmailAddress[]): string {
+  return addresses.map(a => a.name || a.address).join(", ");
+}
+
+function formatDate(date?: string): string | null {
+  return date ? format(new Date(date), "MMM d, yyyy 'at' h:mm a") : null;
+}
+
+function HeaderRow({ label, value }: { label: string; value: string | null }) {
+  if (!value) return null;
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-sm text-muted-foreground flex-shrink-0">{label}</span>
+      <span className="text-sm font-medium text-right break-words min-w-0">{value}</span>
+    </div>
+  );
+}
+
+// Headers, the surrounding conversation and the attachments of an email document
+export function EmailDetails({ documentId, email }: EmailDetailsProps) {
+  const { data: thread } = useQuery<Document[]>({
+    queryKey: ["/api/documents", documentId, "thread"],
+  });
+  const { data: children } = useQuery<Document[]>({
+    queryKey: ["/api/documents", documentId, "children"],
+    enabled: email.attachments.length > 0,
+  });
+
+  const otherEmails = (thread || []).filter(doc => (doc as any)._id !== documentId);
+  const unsupported = email.attachments.filter(a => !a.supported);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <Mail className="w-4 h-4" />
+            Email
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3" data-testid="card-email-headers">
+          <HeaderRow label="From" value={formatAddresses(email.from) || null} />
+          <HeaderRow label="To" value={formatAddresses(email.to) || null} />
+          <HeaderRow label="Cc" value={formatAddresses(email.cc) || null} />
+          <HeaderRow label="Date" value={formatDate(email.date)} />
+          <HeaderRow label="Subject" value={email.subject || null} />
+          {email.messages.length > 1 && (
+            <HeaderRow label="Messages" value={String(email.messages.length)} />
+          )}
+        </CardContent>
+      </Card>
+
+      {email.messages.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base font-medium">Messages</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="max-h-64">
+              <div className="space-y-3" data-testid="list-email-messages">
+                {email.messages.map((message, index) => (
+                  <div key={index} className="text-sm">
+                    <p className="font-medium">{message.subject || "(no subject)"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatAddresses(message.from)}
+                      {message.date && ` • ${formatDate(message.date)}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
+      {otherEmails.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base font-medium flex items-center gap-2">
+              <MessagesSquare className="w-4 h-4" />
+              Conversation
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3" data-testid="list-email-thread">
+              {otherEmails.map(doc => {
+                const other: EmailMetadata | undefined = doc.metadata?.email;
+                return (
+                  <Link key={(doc as any)._id} href={`/documents/${(doc as any)._id}`}>
+                    <div className="text-sm cursor-pointer hover-elevate rounded-md p-2 -m-2">
+                      <p className="font-medium truncate">{other?.subject || doc.originalName}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {other && formatAddresses(other.from)}
+                        {other?.date && ` • ${formatDate(other.date)}`}
+                      </p>
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {email.attachments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base font-medium flex items-center gap-2">
+              <Paperclip className="w-4 h-4" />
+              Attachments
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2" data-testid="list-email-attachments">
+              {children?.map(child => (
+                <Link key={(child as any)._id} href={`/documents/${(child as any)._id}`}>
+                  <div className="flex justify-between gap-2 text-sm cursor-pointer hover-elevate rounded-md p-2 -m-2">
+                    <span className="font-medium truncate">{child.originalName}</span>
+                    <Badge variant="secondary" className="font-normal capitalize flex-shrink-0">
+                      {child.status}
+                    </Badge>
+                  </div>
+                </Link>
+              ))}
+              {unsupported.map((attachment, index) => (
+                <div key={index} className="flex justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground truncate">{attachment.filename}</span>
+                  <span className="text-xs text-muted-foreground flex-shrink-0">Not supported</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
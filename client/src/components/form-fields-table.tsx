@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Loader2, Save } from "lucide-react";
+import type { DocumentForm, FormField } from "@shared/mongo-schema";
+
+// Select items cannot have an empty value, so "no selection" gets a stand-in
+const NONE = "__none__";
+
+interface FormFieldsTableProps {
+  documentId: string;
+  documentName: string;
+  form: DocumentForm;
+  onPageSelect?: (pageNumber: number) => void;
+}
+
+function csvCell(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function exportCsv(documentName: string, fields: FormField[]) {
+  const rows = [
+    ["Field", "Type", "Value", "Original value", "Page"],
+    ...fields.map(f => [f.name, f.type, f.value, f.originalValue, f.pageNumber]),
+  ];
+  const csv = rows.map(row => row.map(csvCell).join(",")).join("\r\n");
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = window.document.createElement("a");
+  link.href = url;
+  link.download = `${documentName.replace(/\.[^.]+$/, "")}-form.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function FieldInput({ field, value, onChange }: {
+  field: FormField;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  if (field.type === "signature") {
+    return <span className="text-sm text-muted-foreground">{value || "Not signed"}</span>;
+  }
+  if (field.type === "checkbox") {
+    return (
+      <Switch
+        checked={value === "Yes"}
+        onCheckedChange={(checked) => onChange(checked ? "Yes" : "No")}
+        data-testid={`switch-form-field-${field.name}`}
+      />
+    );
+  }
+  if (field.options) {
+    return (
+      <Select value={value || NONE} onValueChange={(v) => onChange(v === NONE ? "" : v)}>
+        <SelectTrigger className="h-8" data-testid={`select-form-field-${field.name}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>—</SelectItem>
+          {field.options.map(option => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+  return (
+    <Input
+      className="h-8"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      data-testid={`input-form-field-${field.name}`}
+    />
+  );
+}
+
+// The fields of a fillable PDF with their values, which can be corrected and
+// saved, or downloaded as CSV
+export function FormFieldsTable({ documentId, documentName, form, onPageSelect }: FormFieldsTableProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [edits, setEdits] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setEdits({});
+  }, [form]);
+
+  const changed = Object.keys(edits).filter(name =>
+    form.fields.find(f => f.name === name)?.value !== edits[name]
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const values = Object.fromEntries(changed.map(name => [name, edits[name]]));
+      const res = await apiRequest("PATCH", `/api/documents/${documentId}/form`, { values });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId] });
+      toast({ title: "Form fields saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save form fields",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {form.fields.length} {form.fields.length === 1 ? "field" : "fields"}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportCsv(documentName, form.fields)}
+            data-testid="button-export-form"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate()}
+            disabled={changed.length === 0 || saveMutation.isPending}
+            data-testid="button-save-form"
+          >
+            {saveMutation.isPending
+              ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              : <Save className="w-4 h-4 mr-2" />}
+            Save{changed.length > 0 && ` (${changed.length})`}
+          </Button>
+        </div>
+      </div>
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-medium">Field</TableHead>
+              <TableHead className="font-medium">Value</TableHead>
+              <TableHead className="font-medium w-16 text-right">Page</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {form.fields.map(field => (
+              <TableRow key={field.name} data-testid={`row-form-field-${field.name}`}>
+                <TableCell className="align-middle">
+                  <div className="text-sm font-medium break-all">{field.name}</div>
+                  <div className="flex items-center gap-1 mt-1">
+                    <Badge variant="secondary" className="font-normal capitalize">{field.type}</Badge>
+                    {field.originalValue !== undefined && (
+                      <Badge variant="outline" className="font-normal" title={`Read from the file: ${field.originalValue || "(empty)"}`}>
+                        Edited
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="align-middle">
+                  <FieldInput
+                    field={field}
+                    value={edits[field.name] ?? field.value}
+                    onChange={(value) => setEdits(prev => ({ ...prev, [field.name]: value }))}
+                  />
+                </TableCell>
+                <TableCell className="align-middle text-right">
+                  {field.pageNumber && (
+                    onPageSelect ? (
+                      <button
+                        type="button"
+                        className="text-sm text-muted-foreground hover:underline"
+                        onClick={() => onPageSelect(field.pageNumber!)}
+                      >
+                        {field.pageNumber}
+                      </button>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">{field.pageNumber}</span>
+                    )
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
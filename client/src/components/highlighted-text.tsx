@@ -0,0 +1,70 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+export interface TextHighlight {
+  // Offsets into the same text as `offset`
+  start: number;
+  end: number;
+  className: string;
+  title?: string;
+  active?: boolean;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  // Where `text` starts in the text the highlight offsets refer to
+  offset?: number;
+  highlights: TextHighlight[];
+  className?: string;
+  "data-testid"?: string;
+}
+
+// Shows text with highlighted ranges. Overlapping ranges are resolved in
+// favour of the one that starts first (the longer one on a tie), and the
+// active range is scrolled into view.
+export function HighlightedText({ text, offset = 0, highlights, className, ...props }: HighlightedTextProps) {
+  const activeRef = useRef<HTMLElement>(null);
+  const active = highlights.find(h => h.active);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [active?.start, active?.end, text]);
+
+  const visible = highlights
+    .map(h => ({ ...h, start: h.start - offset, end: h.end - offset }))
+    .filter(h => h.start >= 0 && h.end <= text.length && h.end > h.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const highlight of visible) {
+    if (highlight.start < position) continue;
+    if (highlight.start > position) {
+      parts.push(<span key={`text-${position}`}>{text.slice(position, highlight.start)}</span>);
+    }
+    parts.push(
+      <mark
+        key={`mark-${highlight.start}`}
+        ref={highlight.active ? activeRef : undefined}
+        title={highlight.title}
+        className={cn(
+          "rounded-sm px-0.5 -mx-0.5",
+          highlight.className,
+          highlight.active && "ring-2 ring-primary"
+        )}
+      >
+        {text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    position = highlight.end;
+  }
+  if (position < text.length) {
+    parts.push(<span key={`text-${position}`}>{text.slice(position)}</span>);
+  }
+
+  return (
+    <div className={className} data-testid={props["data-testid"]}>
+      {parts}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Page } from "@shared/mongo-schema";
+
+interface PageImageViewProps {
+  documentId: string;
+  pageCount: number;
+}
+
+// Shows a scanned page next to the text OCR recognised on it
+export function PageImageView({ documentId, pageCount }: PageImageViewProps) {
+  const [pageNumber, setPageNumber] = useState(1);
+
+  const { data: page, isLoading } = useQuery<Page>({
+    queryKey: ["/api/documents", documentId, "pages", pageNumber],
+  });
+
+  return (
+    <div className="space-y-4">
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPageNumber(n => n - 1)}
+            disabled={pageNumber <= 1}
+            data-testid="button-previous-page"
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {pageNumber} of {pageCount}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPageNumber(n => n + 1)}
+            disabled={pageNumber >= pageCount}
+            data-testid="button-next-page"
+          >
+            Next
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </Button>
+        </div>
+      )}
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="border rounded-lg bg-muted/50 overflow-hidden">
+          <img
+            src={`/api/documents/${documentId}/pages/${pageNumber}/image`}
+            alt={`Page ${pageNumber}`}
+            className="w-full h-auto"
+            data-testid="img-page"
+          />
+        </div>
+        <ScrollArea className="h-[420px] border rounded-lg p-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-4 w-5/6" />
+            </div>
+          ) : page?.extractedText ? (
+            <>
+              {page.ocrConfidence !== undefined && (
+                <Badge variant="secondary" className="mb-3 font-normal">
+                  OCR · {Math.round(page.ocrConfidence * 100)}% confidence
+                </Badge>
+              )}
+              <div
+                className="whitespace-pre-wrap font-mono text-sm leading-relaxed"
+                data-testid="text-page-content"
+              >
+                {page.extractedText}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">No text recognised on this page</p>
+          )}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
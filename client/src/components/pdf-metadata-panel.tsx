@@ -0,0 +1,154 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ExternalLink, Info } from "lucide-react";
+import { format } from "date-fns";
+import type { DocumentNavigation, OutlineEntry, PdfMetadata } from "@shared/mongo-schema";
+
+// Only the first links are listed; link-heavy documents can have thousands
+const MAX_LINKS_SHOWN = 100;
+
+interface PdfMetadataPanelProps {
+  metadata?: PdfMetadata;
+  navigation?: DocumentNavigation;
+  onPageSelect: (pageNumber: number) => void;
+}
+
+function formatDate(date?: string): string | null {
+  return date ? format(new Date(date), "MMM d, yyyy 'at' h:mm a") : null;
+}
+
+function PropertyRow({ label, value }: { label: string; value?: string | null }) {
+  if (!value) return null;
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-sm text-muted-foreground flex-shrink-0">{label}</span>
+      <span className="text-sm font-medium text-right break-words min-w-0">{value}</span>
+    </div>
+  );
+}
+
+function OutlineItems({ entries, depth, onPageSelect }: {
+  entries: OutlineEntry[];
+  depth: number;
+  onPageSelect: (pageNumber: number) => void;
+}) {
+  return (
+    <>
+      {entries.map((entry, index) => (
+        <div key={index}>
+          <div
+            className="flex justify-between gap-2 text-sm py-0.5"
+            style={{ paddingLeft: `${depth * 12}px` }}
+          >
+            {entry.pageNumber ? (
+              <button
+                type="button"
+                className={`text-left hover:underline ${depth === 0 ? "font-medium" : "text-muted-foreground"}`}
+                onClick={() => onPageSelect(entry.pageNumber!)}
+              >
+                {entry.title}
+              </button>
+            ) : entry.url ? (
+              <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                {entry.title}
+              </a>
+            ) : (
+              <span className="text-muted-foreground">{entry.title}</span>
+            )}
+            {entry.pageNumber && (
+              <span className="text-xs text-muted-foreground flex-shrink-0">p. {entry.pageNumber}</span>
+            )}
+          </div>
+          {entry.children.length > 0 && (
+            <OutlineItems entries={entry.children} depth={depth + 1} onPageSelect={onPageSelect} />
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
+
+// Document properties, bookmarks and links of a PDF. Bookmarks and links to
+// other pages open that page of the original.
+export function PdfMetadataPanel({ metadata, navigation, onPageSelect }: PdfMetadataPanelProps) {
+  const outline = navigation?.outline || [];
+  const links = navigation?.links || [];
+
+  return (
+    <Card data-testid="card-pdf-metadata">
+      <CardHeader>
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <Info className="w-4 h-4" />
+          Metadata
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {metadata && (
+          <div className="space-y-3">
+            <PropertyRow label="Title" value={metadata.title} />
+            <PropertyRow label="Author" value={metadata.author} />
+            <PropertyRow label="Subject" value={metadata.subject} />
+            <PropertyRow label="Keywords" value={metadata.keywords} />
+            <PropertyRow label="Created" value={formatDate(metadata.creationDate)} />
+            <PropertyRow label="Modified" value={formatDate(metadata.modificationDate)} />
+            <PropertyRow label="Application" value={metadata.creator} />
+            <PropertyRow label="Producer" value={metadata.producer} />
+            <PropertyRow label="PDF version" value={metadata.pdfVersion} />
+            <PropertyRow label="Language" value={metadata.language} />
+          </div>
+        )}
+
+        {outline.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Contents</h4>
+            <ScrollArea className="max-h-64">
+              <div data-testid="list-pdf-outline">
+                <OutlineItems entries={outline} depth={0} onPageSelect={onPageSelect} />
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        {links.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Links ({links.length})</h4>
+            <ScrollArea className="max-h-48">
+              <div className="space-y-1.5" data-testid="list-pdf-links">
+                {links.slice(0, MAX_LINKS_SHOWN).map((link, index) => (
+                  <div key={index} className="flex justify-between gap-2 text-sm">
+                    {link.url ? (
+                      <a
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline truncate min-w-0 inline-flex items-center gap-1"
+                      >
+                        <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                        <span className="truncate">{link.url}</span>
+                      </a>
+                    ) : (
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        onClick={() => onPageSelect(link.targetPage!)}
+                      >
+                        Go to page {link.targetPage}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="text-xs text-muted-foreground flex-shrink-0 hover:underline"
+                      onClick={() => onPageSelect(link.pageNumber)}
+                    >
+                      p. {link.pageNumber}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
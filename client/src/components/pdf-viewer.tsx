@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from "react";
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy, type RenderTask } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from "lucide-react";
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+
+interface PdfViewerProps {
+  url: string;
+  pageNumber: number;
+  onPageChange: (pageNumber: number) => void;
+}
+
+// Renders one page of the original PDF at a time. The file is fetched with
+// range requests, so large PDFs are not downloaded up front.
+export function PdfViewer({ url, pageNumber, onPageChange }: PdfViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scale, setScale] = useState(1);
+
+  useEffect(() => {
+    setPdf(null);
+    setError(null);
+    const task = getDocument({ url, withCredentials: true, disableAutoFetch: true, disableStream: true });
+    task.promise.then(setPdf, (err: Error) => setError(err.message));
+    return () => {
+      task.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | undefined;
+    pdf.getPage(Math.min(Math.max(pageNumber, 1), pdf.numPages)).then((page) => {
+      if (cancelled) return;
+      // Render at device resolution so text stays sharp on high-DPI screens
+      const ratio = window.devicePixelRatio || 1;
+      const viewport = page.getViewport({ scale });
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+      renderTask = page.render({
+        canvasContext: canvas.getContext("2d")!,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+      renderTask.promise.catch((err: Error) => {
+        if (err.name !== "RenderingCancelledException") setError(err.message);
+      });
+    }).catch((err: Error) => {
+      // A page that cannot be read shows the same error as a file that cannot be loaded
+      if (!cancelled) setError(err.message);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, scale]);
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+        <p className="text-muted-foreground">Could not display the PDF: {error}</p>
+      </div>
+    );
+  }
+
+  const pageCount = pdf?.numPages ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={() => onPageChange(pageNumber - 1)}
+            disabled={pageNumber <= 1}
+            data-testid="button-pdf-previous-page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground tabular-nums">
+            Page {pageNumber} of {pageCount || "…"}
+          </span>
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={() => onPageChange(pageNumber + 1)}
+            disabled={!pdf || pageNumber >= pageCount}
+            data-testid="button-pdf-next-page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={() => setScale(s => Math.max(MIN_SCALE, s - SCALE_STEP))}
+            disabled={scale <= MIN_SCALE}
+            data-testid="button-pdf-zoom-out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground w-12 text-center tabular-nums">
+            {Math.round(scale * 100)}%
+          </span>
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={() => setScale(s => Math.min(MAX_SCALE, s + SCALE_STEP))}
+            disabled={scale >= MAX_SCALE}
+            data-testid="button-pdf-zoom-in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="border rounded-lg bg-muted/50 overflow-auto flex justify-center">
+        {!pdf && <Skeleton className="h-[420px] w-full" />}
+        <canvas ref={canvasRef} className={pdf ? "shadow-sm" : "hidden"} data-testid="canvas-pdf-page" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { queryClient } from "@/lib/queryClient";
+import { useDocumentEvents } from "@/hooks/useDocumentEvents";
+import { AlertCircle, CheckCircle2, Clock, Loader2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import type { ProcessingEvent, ProcessingStage } from "@shared/mongo-schema";
+
+const STAGE_LABELS: Record<ProcessingStage, string> = {
+  parse: "Parse file",
+  pages: "Save pages",
+  nlp: "Entities, keywords and tables",
+  analysis: "Save analysis",
+  ai: "AI enhancement",
+};
+
+interface ProcessingTimelineProps {
+  documentId: string;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60_000)} min ${Math.round((ms % 60_000) / 1000)} s`;
+}
+
+// Each processing run starts with a parse stage
+function groupRuns(events: ProcessingEvent[]): ProcessingEvent[][] {
+  const runs: ProcessingEvent[][] = [];
+  events.forEach((event) => {
+    if (event.stage === "parse" || runs.length === 0) runs.push([]);
+    runs[runs.length - 1].push(event);
+  });
+  return runs;
+}
+
+function OutcomeBadge({ outcome }: { outcome: ProcessingEvent["outcome"] | "interrupted" }) {
+  switch (outcome) {
+    case "success":
+      return (
+        <Badge variant="secondary" className="bg-chart-2/10 text-chart-2 border-0">
+          <CheckCircle2 className="w-3 h-3 mr-1" />
+          Done
+        </Badge>
+      );
+    case "running":
+      return (
+        <Badge variant="secondary" className="bg-chart-4/10 text-chart-4 border-0">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          Running
+        </Badge>
+      );
+    case "error":
+      return (
+        <Badge variant="destructive">
+          <AlertCircle className="w-3 h-3 mr-1" />
+          Failed
+        </Badge>
+      );
+    case "cancelled":
+      return (
+        <Badge variant="secondary">
+          <XCircle className="w-3 h-3 mr-1" />
+          Cancelled
+        </Badge>
+      );
+    default:
+      return <Badge variant="outline">Interrupted</Badge>;
+  }
+}
+
+// The stages of every processing run of the current version, with their
+// timing, outcome and error. Runs are listed newest first.
+export function ProcessingTimeline({ documentId }: ProcessingTimelineProps) {
+  const queryKey = ["/api/documents", documentId, "events"];
+  const { data: events, isLoading } = useQuery<ProcessingEvent[]>({ queryKey });
+
+  useDocumentEvents((event) => {
+    if (event.documentId === documentId) queryClient.invalidateQueries({ queryKey });
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-5/6" />
+        <Skeleton className="h-4 w-2/3" />
+      </div>
+    );
+  }
+
+  if (!events || events.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Clock className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+        <p className="text-muted-foreground">No processing has been recorded for this version yet</p>
+      </div>
+    );
+  }
+
+  const runs = groupRuns(events).reverse();
+
+  return (
+    <div className="space-y-8">
+      {runs.map((run, runIndex) => {
+        const total = run.reduce((sum, event) => sum + (event.durationMs ?? 0), 0);
+        return (
+          <div key={(run[0] as any)._id} className="space-y-3" data-testid={`processing-run-${runIndex}`}>
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-medium">
+                Attempt {run[0].attempt}
+                <span className="text-muted-foreground font-normal">
+                  {" • "}{format(new Date(run[0].startedAt), "MMM d, yyyy 'at' h:mm:ss a")}
+                </span>
+              </h4>
+              <span className="text-xs text-muted-foreground tabular-nums">{formatDuration(total)}</span>
+            </div>
+            <div className="border rounded-lg divide-y">
+              {run.map((event) => (
+                <div key={(event as any)._id} className="p-3 space-y-1" data-testid={`processing-stage-${event.stage}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm">{STAGE_LABELS[event.stage]}</span>
+                    <div className="flex items-center gap-2">
+                      {event.durationMs !== undefined && (
+                        <span className="text-xs text-muted-foreground tabular-nums">
+                          {formatDuration(event.durationMs)}
+                        </span>
+                      )}
+                      {/* A stage left running by an earlier run never finished */}
+                      <OutcomeBadge outcome={event.outcome === "running" && runIndex > 0 ? "interrupted" : event.outcome} />
+                    </div>
+                  </div>
+                  {event.details && Object.keys(event.details).length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {Object.entries(event.details).map(([key, value]) => `${key}: ${value}`).join(" • ")}
+                    </p>
+                  )}
+                  {event.error && (
+                    <p className="text-xs text-destructive break-words">{event.error}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { Building, MapPin, User } from "lucide-react";
+import type { RegistryEntityType } from "@shared/mongo-schema";
+
+export function RegistryEntityIcon({ type, className = "w-5 h-5" }: { type: RegistryEntityType; className?: string }) {
+  switch (type) {
+    case "person":
+      return <User className={className} />;
+    case "organization":
+      return <Building className={className} />;
+    default:
+      return <MapPin className={className} />;
+  }
+}
@@ -0,0 +1,190 @@
+import { useEffect, useRef } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { Batch, Document, DocumentEvent } from "@shared/mongo-schema";
+
+type Listener = (event: DocumentEvent) => void;
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+// Events come from the server this browser is connected to, and with several
+// servers a document may be processed by another one. While documents are in
+// flight and no event has come for this long, their state is fetched instead.
+const CATCH_UP_INTERVAL_MS = 15_000;
+
+// The event a fetched status stands for
+const STATUS_EVENTS: Record<string, DocumentEvent["type"]> = {
+  pending: "queued",
+  processing: "progress",
+  completed: "completed",
+  error: "error",
+  cancelled: "cancelled",
+  needs_password: "needs_password",
+};
+
+// One socket is shared by every component that listens; it is opened by the
+// first one and closed when the last one unmounts
+const listeners = new Set<Listener>();
+let subscribers = 0;
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = 1000;
+let connectedBefore = false;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let catchUpTimer: ReturnType<typeof setInterval> | null = null;
+let lastEventAt = 0;
+// The last known status and progress of each document being processed
+const inFlight = new Map<string, Pick<DocumentEvent, "status" | "processingProgress">>();
+
+function isInFlight(status: string) {
+  return status === "pending" || status === "processing";
+}
+
+// Batches of documents settle together, so refetches are coalesced
+function scheduleRefresh() {
+  if (refreshTimer) return;
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  }, 500);
+}
+
+function patchDocument(doc: Document, event: DocumentEvent): Document {
+  if ((doc as any)._id !== event.documentId || (doc.currentVersion ?? 1) !== event.version) return doc;
+  return {
+    ...doc,
+    status: event.status,
+    processingProgress: event.processingProgress ?? doc.processingProgress,
+  };
+}
+
+// Pushed statuses are copied into cached documents right away. When a
+// document is queued or settles, everything derived from it is refetched:
+// its pages and extractions, the dashboard counts and new attachment documents.
+function applyEvent(event: DocumentEvent) {
+  queryClient.setQueryData<Document>(["/api/documents", event.documentId], (doc) =>
+    doc && patchDocument(doc, event)
+  );
+  queryClient.setQueriesData<Document[]>({ queryKey: ["/api/documents"], exact: true }, (docs) =>
+    docs?.map((doc) => patchDocument(doc, event))
+  );
+  queryClient.setQueriesData<Batch & { documents: Document[] }>({ queryKey: ["/api/batches"] }, (batch) =>
+    batch && { ...batch, documents: batch.documents.map((doc) => patchDocument(doc, event)) }
+  );
+
+  if (event.type !== "stage" && event.type !== "progress") {
+    scheduleRefresh();
+  }
+}
+
+function dispatch(event: DocumentEvent) {
+  if (isInFlight(event.status)) {
+    inFlight.set(event.documentId, { status: event.status, processingProgress: event.processingProgress });
+  } else {
+    inFlight.delete(event.documentId);
+  }
+  applyEvent(event);
+  listeners.forEach((listener) => listener(event));
+}
+
+function cachedDocuments(): Document[] {
+  const list = queryClient.getQueryData<Document[]>(["/api/documents"]) || [];
+  const single = queryClient
+    .getQueriesData<Document>({ queryKey: ["/api/documents"], predicate: (query) => query.queryKey.length === 2 })
+    .map(([, doc]) => doc);
+  return [...list, ...single].filter((doc): doc is Document => !!doc && !Array.isArray(doc));
+}
+
+// Turns the changes of documents in flight into the events that were missed
+async function catchUp() {
+  cachedDocuments().forEach((doc) => {
+    const id = (doc as any)._id;
+    if (isInFlight(doc.status) && !inFlight.has(id)) {
+      inFlight.set(id, { status: doc.status, processingProgress: doc.processingProgress });
+    }
+  });
+  if (inFlight.size === 0 || Date.now() - lastEventAt < CATCH_UP_INTERVAL_MS) return;
+
+  try {
+    const res = await fetch("/api/documents", { credentials: "include" });
+    if (!res.ok) return;
+    const docs: Document[] = await res.json();
+    const byId = new Map(docs.map((doc) => [(doc as any)._id as string, doc]));
+    Array.from(inFlight.entries()).forEach(([id, known]) => {
+      const doc = byId.get(id);
+      if (!doc) {
+        inFlight.delete(id);
+        return;
+      }
+      if (doc.status === known.status && doc.processingProgress === known.processingProgress) return;
+      dispatch({
+        type: STATUS_EVENTS[doc.status] || "updated",
+        documentId: id,
+        version: doc.currentVersion ?? 1,
+        status: doc.status,
+        processingProgress: doc.processingProgress,
+        error: doc.failure?.message,
+        at: new Date().toISOString(),
+      });
+    });
+  } catch (error) {
+    console.warn("Could not fetch document states:", error);
+  }
+}
+
+function connect() {
+  reconnectTimer = null;
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectDelay = 1000;
+    // Events sent while disconnected are lost, so catch up from the API
+    if (connectedBefore) scheduleRefresh();
+    connectedBefore = true;
+  };
+
+  ws.onmessage = (message) => {
+    lastEventAt = Date.now();
+    dispatch(JSON.parse(message.data));
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    if (subscribers > 0) {
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    }
+  };
+}
+
+// Keeps the live processing event socket open while mounted. The optional
+// listener is called with every event for the signed-in user's documents.
+export function useDocumentEvents(listener?: Listener) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    const forward: Listener = (event) => listenerRef.current?.(event);
+    listeners.add(forward);
+    subscribers++;
+    if (!socket && !reconnectTimer) connect();
+    if (!catchUpTimer) catchUpTimer = setInterval(catchUp, CATCH_UP_INTERVAL_MS);
+
+    return () => {
+      listeners.delete(forward);
+      subscribers--;
+      if (subscribers === 0) {
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+        if (catchUpTimer) clearInterval(catchUpTimer);
+        catchUpTimer = null;
+        const ws = socket;
+        socket = null;
+        ws?.close();
+      }
+    };
+  }, []);
+}
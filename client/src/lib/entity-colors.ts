@@ -0,0 +1,13 @@
+import type { CustomEntityColor } from "@shared/mongo-schema";
+
+// Badge and highlight classes of the colours a custom entity type can have
+export const CUSTOM_ENTITY_COLOR_CLASSES: Record<CustomEntityColor, string> = {
+  blue: "bg-blue-600/10 text-blue-700 border-0",
+  green: "bg-green-600/10 text-green-700 border-0",
+  amber: "bg-amber-600/10 text-amber-700 border-0",
+  rose: "bg-rose-600/10 text-rose-700 border-0",
+  violet: "bg-violet-600/10 text-violet-700 border-0",
+  cyan: "bg-cyan-600/10 text-cyan-700 border-0",
+  orange: "bg-orange-600/10 text-orange-700 border-0",
+  slate: "bg-slate-600/10 text-slate-700 border-0",
+};
@@ -35,6 +35,7 @@ export const reportTemplates: ReportTemplate[] = [
       { id: 'overview', title: 'Overview Statistics', type: 'stats', enabled: true },
       { id: 'trends', title: 'Documents Over Time', type: 'chart', chartType: 'line', dataKey: 'documentsOverTime', enabled: true },
       { id: 'entities', title: 'Entity Distribution', type: 'chart', chartType: 'pie', dataKey: 'entityDistribution', enabled: true },
+      { id: 'entityTypes', title: 'Entities by Type', type: 'chart', chartType: 'bar', dataKey: 'entityTypes', enabled: true },
       { id: 'keywords', title: 'Top Keywords', type: 'chart', chartType: 'bar', dataKey: 'topKeywords', enabled: true },
       { id: 'status', title: 'Document Status', type: 'chart', chartType: 'bar', dataKey: 'statusDistribution', enabled: true },
     ],
@@ -47,6 +48,7 @@ export const reportTemplates: ReportTemplate[] = [
       { id: 'overview', title: 'Overview Statistics', type: 'stats', enabled: true },
       { id: 'keywords', title: 'Top Keywords', type: 'chart', chartType: 'bar', dataKey: 'topKeywords', enabled: true },
       { id: 'entities', title: 'Entity Distribution', type: 'chart', chartType: 'pie', dataKey: 'entityDistribution', enabled: true },
+      { id: 'entityTypes', title: 'Entities by Type', type: 'chart', chartType: 'bar', dataKey: 'entityTypes', enabled: true },
     ],
   },
   {
@@ -233,6 +233,7 @@ export default function Chat() {
                         msg.role === "user" ? "text-primary-foreground/70" : "text-muted-foreground"
                       }`}>
                         {msg.createdAt && format(new Date(msg.createdAt), "h:mm a")}
+                        {(document?.versionCount ?? 1) > 1 && ` • v${msg.version ?? 1}`}
                       </p>
                     </div>
                     {msg.role === "user" && (
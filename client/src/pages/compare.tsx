@@ -0,0 +1,318 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, ArrowRight, GitCompare } from "lucide-react";
+import type {
+  Document,
+  DocumentComparison,
+  DocumentVersion,
+  SetDiff,
+  TableDiff,
+  ValueDiff,
+} from "@shared/mongo-schema";
+import { format } from "date-fns";
+import { ENTITY_LABELS } from "@shared/entities";
+
+interface SidePickerProps {
+  label: string;
+  documents: Document[];
+  documentId?: string;
+  version?: string;
+  onChange: (documentId: string, version?: string) => void;
+}
+
+function SidePicker({ label, documents, documentId, version, onChange }: SidePickerProps) {
+  const selected = documents.find(doc => (doc as any)._id === documentId);
+  const { data: versions } = useQuery<DocumentVersion[]>({
+    queryKey: ["/api/documents", documentId, "versions"],
+    enabled: !!documentId && (selected?.versionCount ?? 1) > 1,
+  });
+
+  return (
+    <div className="space-y-2 flex-1 min-w-0">
+      <Label>{label}</Label>
+      <Select value={documentId} onValueChange={(id) => onChange(id)}>
+        <SelectTrigger data-testid={`select-${label.toLowerCase()}-document`}>
+          <SelectValue placeholder="Choose a document" />
+        </SelectTrigger>
+        <SelectContent>
+          {documents.map(doc => (
+            <SelectItem key={(doc as any)._id} value={(doc as any)._id}>
+              {doc.originalName}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {versions && versions.length > 1 && (
+        <Select
+          value={version ?? String(selected?.currentVersion ?? 1)}
+          onValueChange={(v) => onChange(documentId!, v)}
+        >
+          <SelectTrigger data-testid={`select-${label.toLowerCase()}-version`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {versions.map(v => (
+              <SelectItem key={v.version} value={String(v.version)} disabled={v.status !== "completed"}>
+                Version {v.version}
+                {v.uploadDate && ` • ${format(new Date(v.uploadDate), "MMM d, yyyy")}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+function ChangeList({ title, diff }: { title: string; diff: SetDiff | ValueDiff }) {
+  const changed = "changed" in diff ? diff.changed : [];
+  if (diff.added.length + diff.removed.length + changed.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <div className="flex flex-wrap gap-2">
+        {changed.map((change, i) => (
+          <Badge key={`c${i}`} variant="outline" className="gap-1" title={change.context}>
+            <span className="line-through text-destructive">{change.from}</span>
+            <ArrowRight className="w-3 h-3" />
+            <span className="text-chart-2">{change.to}</span>
+          </Badge>
+        ))}
+        {diff.removed.map(value => (
+          <Badge key={`r${value}`} variant="outline" className="line-through text-destructive border-destructive/30">
+            {value}
+          </Badge>
+        ))}
+        {diff.added.map(value => (
+          <Badge key={`a${value}`} variant="outline" className="text-chart-2 border-chart-2/30">
+            {value}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TableChanges({ table, index }: { table: TableDiff; index: number }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h4 className="text-sm font-medium">{table.name || `Table ${index + 1}`}</h4>
+        <Badge variant="secondary" className="capitalize">{table.status}</Badge>
+      </div>
+      <ChangeList title="Columns" diff={table.headers} />
+      {table.removedRows.length + table.addedRows.length > 0 && (
+        <div className="border rounded-lg overflow-auto">
+          <Table>
+            <TableBody>
+              {table.removedRows.map((row, i) => (
+                <TableRow key={`r${i}`} className="bg-destructive/5">
+                  <TableCell className="text-destructive">−</TableCell>
+                  {row.map((cell, j) => <TableCell key={j} className="line-through">{cell}</TableCell>)}
+                </TableRow>
+              ))}
+              {table.addedRows.map((row, i) => (
+                <TableRow key={`a${i}`} className="bg-chart-2/5">
+                  <TableCell className="text-chart-2">+</TableCell>
+                  {row.map((cell, j) => <TableCell key={j}>{cell}</TableCell>)}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Compare() {
+  const [location, navigate] = useLocation();
+  const params = new URLSearchParams(useSearch());
+  const left = params.get("left") || undefined;
+  const right = params.get("right") || undefined;
+
+  const { data: documents } = useQuery<Document[]>({
+    queryKey: ["/api/documents"],
+  });
+  const completed = documents?.filter(doc => doc.status === "completed") || [];
+
+  const setSide = (side: "left" | "right", documentId: string, version?: string) => {
+    const next = new URLSearchParams(params);
+    next.set(side, documentId);
+    if (version) next.set(`${side}Version`, version);
+    else next.delete(`${side}Version`);
+    navigate(`${location}?${next.toString()}`, { replace: true });
+  };
+
+  const compareQuery = new URLSearchParams();
+  params.forEach((value, key) => {
+    if (["left", "right", "leftVersion", "rightVersion"].includes(key)) compareQuery.set(key, value);
+  });
+  const { data: comparison, isLoading, error } = useQuery<DocumentComparison>({
+    queryKey: [`/api/compare?${compareQuery.toString()}`],
+    enabled: !!left && !!right,
+  });
+
+  // People, organizations, amounts and dates are already covered by parties, amounts and dates
+  const otherEntities = (Object.keys(ENTITY_LABELS) as (keyof DocumentComparison["entities"])[])
+    .filter(key => !["persons", "organizations", "money", "dates"].includes(key));
+  const hasKeyChanges = !!comparison && ([
+    comparison.parties,
+    comparison.amounts,
+    comparison.dates,
+    comparison.keywords,
+    ...otherEntities.map(key => comparison.entities[key]),
+  ] as (SetDiff | ValueDiff)[]).some(diff => diff.added.length + diff.removed.length + ("changed" in diff ? diff.changed.length : 0) > 0);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-semibold" data-testid="text-compare-title">Compare Documents</h1>
+        <p className="text-muted-foreground mt-1">
+          See what changed between two documents or two versions of the same document
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 flex flex-col md:flex-row md:items-end gap-4">
+          <SidePicker
+            label="Original"
+            documents={completed}
+            documentId={left}
+            version={params.get("leftVersion") || undefined}
+            onChange={(id, version) => setSide("left", id, version)}
+          />
+          <ArrowRight className="w-5 h-5 text-muted-foreground hidden md:block mb-2.5 flex-shrink-0" />
+          <SidePicker
+            label="Revised"
+            documents={completed}
+            documentId={right}
+            version={params.get("rightVersion") || undefined}
+            onChange={(id, version) => setSide("right", id, version)}
+          />
+        </CardContent>
+      </Card>
+
+      {!left || !right ? (
+        <div className="text-center py-16">
+          <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+            <GitCompare className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">Choose two processed documents to compare</p>
+        </div>
+      ) : isLoading ? (
+        <Card>
+          <CardContent className="p-6 space-y-3">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-5/6" />
+            <Skeleton className="h-4 w-2/3" />
+          </CardContent>
+        </Card>
+      ) : error || !comparison ? (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="w-4 h-4" />
+          {error instanceof Error ? error.message : "Comparison failed"}
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2" data-testid="compare-statistics">
+            <Badge variant="secondary">{comparison.statistics.changed} changed</Badge>
+            <Badge variant="secondary" className="bg-chart-2/10 text-chart-2 border-0">
+              {comparison.statistics.inserted} inserted
+            </Badge>
+            <Badge variant="secondary" className="bg-destructive/10 text-destructive border-0">
+              {comparison.statistics.deleted} deleted
+            </Badge>
+            <Badge variant="outline">{comparison.statistics.unchanged} unchanged paragraphs</Badge>
+          </div>
+
+          <Tabs defaultValue="text">
+            <TabsList>
+              <TabsTrigger value="text">Text</TabsTrigger>
+              <TabsTrigger value="changes">Key Changes</TabsTrigger>
+              <TabsTrigger value="tables">Tables ({comparison.tables.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="text">
+              <Card>
+                <CardContent className="p-6 space-y-4 text-sm leading-relaxed">
+                  {comparison.paragraphs.length === 0 && (
+                    <p className="text-muted-foreground">Neither document has extracted text</p>
+                  )}
+                  {comparison.paragraphs.map((paragraph, i) => (
+                    <p
+                      key={i}
+                      className={paragraph.type === "equal" ? "text-muted-foreground" : ""}
+                      data-testid={`compare-paragraph-${i}`}
+                    >
+                      {paragraph.segments.map((segment, j) =>
+                        segment.type === "insert" ? (
+                          <ins key={j} className="bg-chart-2/15 text-chart-2 no-underline rounded-sm">{segment.text}</ins>
+                        ) : segment.type === "delete" ? (
+                          <del key={j} className="bg-destructive/10 text-destructive rounded-sm">{segment.text}</del>
+                        ) : (
+                          <span key={j}>{segment.text}</span>
+                        )
+                      )}
+                    </p>
+                  ))}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="changes">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg font-medium">Parties, amounts and dates</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {!hasKeyChanges && (
+                    <p className="text-sm text-muted-foreground">No differences in entities or keywords</p>
+                  )}
+                  <ChangeList title="Parties" diff={comparison.parties} />
+                  <ChangeList title="Amounts" diff={comparison.amounts} />
+                  <ChangeList title="Dates" diff={comparison.dates} />
+                  {otherEntities.map(key => (
+                    <ChangeList key={key} title={ENTITY_LABELS[key]} diff={comparison.entities[key]} />
+                  ))}
+                  <ChangeList title="Keywords" diff={comparison.keywords} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="tables">
+              <Card>
+                <CardContent className="p-6 space-y-6">
+                  {comparison.tables.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Neither document has tables</p>
+                  ) : (
+                    comparison.tables.map((table, i) => <TableChanges key={i} table={table} index={i} />)
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
@@ -80,6 +80,10 @@ function getStatusBadge(status: string) {
       );
     case "error":
       return <Badge variant="destructive">Error</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary">Cancelled</Badge>;
+    case "needs_password":
+      return <Badge variant="secondary" className="bg-chart-4/10 text-chart-4 border-0">Password Required</Badge>;
     default:
       return <Badge variant="secondary">Pending</Badge>;
   }
@@ -188,7 +192,7 @@ export default function Dashboard() {
                 </div>
                 <h3 className="font-medium mb-2">No documents yet</h3>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Upload your first PDF to get started
+                  Upload your first document to get started
                 </p>
                 <Link href="/upload">
                   <Button size="sm">
@@ -1,4 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useParams, Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,6 +7,33 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { PageImageView } from "@/components/page-image-view";
+import { PdfViewer } from "@/components/pdf-viewer";
+import { EmailDetails } from "@/components/email-details";
+import { ProcessingTimeline } from "@/components/processing-timeline";
+import { DocumentPasswordForm } from "@/components/document-password-form";
+import { PdfMetadataPanel } from "@/components/pdf-metadata-panel";
+import { FormFieldsTable } from "@/components/form-fields-table";
+import { HighlightedText, type TextHighlight } from "@/components/highlighted-text";
 import {
   Table,
   TableBody,
@@ -28,8 +56,34 @@ import {
   MapPin,
   Calendar,
   Banknote,
+  RotateCcw,
+  RefreshCw,
+  XCircle,
+  ScanText,
+  ListTree,
+  Paperclip,
+  History,
+  Upload,
+  GitCompare,
+  ChevronLeft,
+  ChevronRight,
+  Lock,
+  Mail,
+  Phone,
+  Link2,
+  Landmark,
+  CreditCard,
+  Receipt,
+  Percent,
+  Ruler,
+  Network,
+  Tag,
 } from "lucide-react";
-import type { Document, Extraction, DocumentAnalysis, ExtractedEntity, ExtractedTable } from "@shared/mongo-schema";
+import type { Document, DocumentForm, DocumentNavigation, DocumentVersion, EmailMetadata, PdfMetadata, Extraction, DocumentAnalysis, DocumentStructure, ExtractedEntity, ExtractedTable, NormalizedValue, Page, ProcessingOptions, RegistryEntitySummary, CustomEntityType } from "@shared/mongo-schema";
+import { FORMAT_LABELS, SUPPORTED_UPLOAD_TYPES, type DocumentFormat } from "@shared/file-types";
+import { FAILURE_REASON_LABELS } from "@shared/failures";
+import { ENTITY_LABELS, ENTITY_TYPE_KEYS, type EntityKey } from "@shared/entities";
+import { CUSTOM_ENTITY_COLOR_CLASSES } from "@/lib/entity-colors";
 import { format } from "date-fns";
 
 function getStatusBadge(status: string) {
@@ -45,6 +99,15 @@ function getStatusBadge(status: string) {
       );
     case "error":
       return <Badge variant="destructive">Error</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary">Cancelled</Badge>;
+    case "needs_password":
+      return (
+        <Badge variant="secondary" className="bg-chart-4/10 text-chart-4 border-0">
+          <Lock className="w-3 h-3 mr-1" />
+          Password Required
+        </Badge>
+      );
     default:
       return <Badge variant="secondary">Pending</Badge>;
   }
@@ -62,6 +125,22 @@ function EntityIcon({ type }: { type: string }) {
       return <Calendar className="w-4 h-4" />;
     case "money":
       return <Banknote className="w-4 h-4" />;
+    case "email":
+      return <Mail className="w-4 h-4" />;
+    case "phone":
+      return <Phone className="w-4 h-4" />;
+    case "url":
+      return <Link2 className="w-4 h-4" />;
+    case "bank":
+      return <Landmark className="w-4 h-4" />;
+    case "card":
+      return <CreditCard className="w-4 h-4" />;
+    case "tax":
+      return <Receipt className="w-4 h-4" />;
+    case "percent":
+      return <Percent className="w-4 h-4" />;
+    case "quantity":
+      return <Ruler className="w-4 h-4" />;
     default:
       return <FileText className="w-4 h-4" />;
   }
@@ -84,19 +163,204 @@ function EntityBadgeColor(type: string) {
   }
 }
 
+// The entity lists of the Entities tab, in order, with the icon and colour of each
+const ENTITY_GROUPS: { key: EntityKey; icon: string }[] = [
+  { key: 'persons', icon: 'person' },
+  { key: 'organizations', icon: 'organization' },
+  { key: 'locations', icon: 'location' },
+  { key: 'dates', icon: 'date' },
+  { key: 'money', icon: 'money' },
+  { key: 'emails', icon: 'email' },
+  { key: 'phones', icon: 'phone' },
+  { key: 'urls', icon: 'url' },
+  { key: 'ibans', icon: 'bank' },
+  { key: 'bics', icon: 'bank' },
+  { key: 'cardNumbers', icon: 'card' },
+  { key: 'taxIds', icon: 'tax' },
+  { key: 'postalCodes', icon: 'location' },
+  { key: 'percentages', icon: 'percent' },
+  { key: 'quantities', icon: 'quantity' },
+];
+
+// The value a date, amount or quantity was read as, shown as the badge's tooltip
+function describeNormalized(value?: NormalizedValue): string | undefined {
+  switch (value?.kind) {
+    case "date":
+      return value.end !== value.date ? `${value.date} – ${value.end}` : value.date;
+    case "money":
+      return value.amount.toLocaleString(undefined, { style: "currency", currency: value.currency });
+    case "quantity":
+      return `${value.value.toLocaleString()} ${value.unit}`;
+    default:
+      return undefined;
+  }
+}
+
+function entityHighlightColor(key: EntityKey) {
+  const icon = ENTITY_GROUPS.find(group => group.key === key)?.icon ?? "other";
+  return EntityBadgeColor(icon) || "bg-muted";
+}
+
+// Entities are grouped under their EntityKey, or "custom:<type id>" for the
+// user's own types
+function entityGroupKey(entity: ExtractedEntity): string | undefined {
+  return entity.type === "custom" ? `custom:${entity.customTypeId}` : ENTITY_TYPE_KEYS[entity.type];
+}
+
+// The entity whose occurrences are being stepped through in the text
+interface ActiveEntity {
+  key: string;
+  text: string;
+  index: number;
+}
+
 interface DocumentWithExtraction extends Document {
   extractions?: Extraction[];
   extractedText?: string;
 }
 
+function isInFlight(status?: string) {
+  return status === "pending" || status === "processing";
+}
+
 export default function DocumentViewer() {
   const params = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reprocessOpen, setReprocessOpen] = useState(false);
+  const [reprocessOptions, setReprocessOptions] = useState<Required<ProcessingOptions>>({
+    aiEnhancement: true,
+    tableDetection: true,
+    ocr: "auto",
+  });
 
   const { data: document, isLoading } = useQuery<DocumentWithExtraction>({
     queryKey: ["/api/documents", params.id],
     enabled: !!params.id,
   });
 
+  const { data: pages } = useQuery<Page[]>({
+    queryKey: ["/api/documents", params.id, "pages"],
+    enabled: !!params.id && document?.status === "completed",
+  });
+  const ocrPageCount = pages?.filter(p => p.extractionMethod === "ocr").length || 0;
+
+  // The Original and Extracted Text tabs of a PDF show the same page
+  const [tab, setTab] = useState("text");
+  const [pageNumber, setPageNumber] = useState(1);
+  const isPdf = document?.format === "pdf" && document?.status === "completed";
+  const showPageText = isPdf && !!pages && pages.length > 0;
+  const { data: currentPage, isLoading: pageLoading } = useQuery<Page>({
+    queryKey: ["/api/documents", params.id, "pages", pageNumber],
+    enabled: showPageText,
+  });
+
+  const [activeEntity, setActiveEntity] = useState<ActiveEntity | null>(null);
+
+  useEffect(() => {
+    setPageNumber(1);
+    setActiveEntity(null);
+  }, [document?.currentVersion]);
+
+  const { data: parent } = useQuery<Document>({
+    queryKey: ["/api/documents", document?.parentId],
+    enabled: !!document?.parentId,
+  });
+
+  const { data: versions } = useQuery<DocumentVersion[]>({
+    queryKey: ["/api/documents", params.id, "versions"],
+    enabled: !!params.id && (document?.versionCount ?? 1) > 1,
+  });
+  const versionInputRef = useRef<HTMLInputElement>(null);
+
+  const switchVersionMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const res = await apiRequest("POST", `/api/documents/${params.id}/versions/${version}/activate`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not switch version",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadVersionMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/documents/${params.id}/versions`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Upload failed");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data: Document) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({
+        title: `Version ${data.currentVersion} uploaded`,
+        description: "Earlier versions stay available from the version menu",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, options }: { action: "retry" | "reprocess" | "cancel"; options?: ProcessingOptions }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/documents/${params.id}/${action}`,
+        options ? { options } : undefined
+      );
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      setReprocessOpen(false);
+      toast({
+        title: action === "cancel" ? "Processing cancelled" : "Document queued",
+        description: action === "cancel"
+          ? "You can retry the document at any time"
+          : "Extracted text and analysis will be replaced when processing finishes",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openReprocessDialog = () => {
+    setReprocessOptions({
+      aiEnhancement: document?.processingOptions?.aiEnhancement !== false,
+      tableDetection: document?.processingOptions?.tableDetection !== false,
+      ocr: document?.processingOptions?.ocr || "auto",
+    });
+    setReprocessOpen(true);
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
@@ -109,6 +373,85 @@ export default function DocumentViewer() {
   const tableExtraction = document?.extractions?.find(e => e.extractionType === "tables");
   const tables = (tableExtraction?.data as ExtractedTable[] | undefined) || analysis?.tables || [];
 
+  const structureExtraction = document?.extractions?.find(e => e.extractionType === "structure");
+  const headings = (structureExtraction?.data as DocumentStructure | undefined)?.headings || [];
+  const minHeadingLevel = Math.min(...headings.map(h => h.level));
+
+  const email = document?.metadata?.email as EmailMetadata | undefined;
+  const pdfMetadata = document?.metadata?.pdf as PdfMetadata | undefined;
+  const navigation = document?.extractions?.find(e => e.extractionType === "navigation")?.data as DocumentNavigation | undefined;
+  const form = document?.extractions?.find(e => e.extractionType === "form")?.data as DocumentForm | undefined;
+
+  // Documents processed before occurrences were recorded have no `entities` extraction
+  const locatedEntities = document?.extractions?.find(e => e.extractionType === "entities")?.data as ExtractedEntity[] | undefined;
+  const findLocated = (key: string, text: string) =>
+    locatedEntities?.find(e => entityGroupKey(e) === key && e.text === text);
+
+  const { data: customTypes } = useQuery<CustomEntityType[]>({
+    queryKey: ["/api/entity-types"],
+  });
+
+  // The entity lists of the Entities tab: the built-in types, then the user's
+  // own types. Types deleted since the document was processed are left out.
+  const entityGroups = [
+    ...ENTITY_GROUPS.map(({ key, icon }) => ({
+      key: key as string,
+      label: ENTITY_LABELS[key],
+      icon: <EntityIcon type={icon} />,
+      className: EntityBadgeColor(icon),
+      highlightClassName: entityHighlightColor(key),
+      // Analyses saved before a type was introduced have no list for it
+      items: analysis?.entities?.[key] || [],
+    })),
+    ...(customTypes || []).map(type => ({
+      key: `custom:${(type as any)._id}`,
+      label: type.name,
+      icon: <Tag className="w-4 h-4" />,
+      className: CUSTOM_ENTITY_COLOR_CLASSES[type.color],
+      highlightClassName: CUSTOM_ENTITY_COLOR_CLASSES[type.color],
+      items: analysis?.customEntities?.[(type as any)._id] || [],
+    })),
+  ];
+
+  const entityHighlights: TextHighlight[] = (locatedEntities || []).flatMap(entity => {
+    const key = entityGroupKey(entity);
+    const group = key && entityGroups.find(g => g.key === key);
+    if (!group) return [];
+    return (entity.occurrences || []).map((occurrence, index) => ({
+      start: occurrence.start,
+      end: occurrence.end,
+      className: group.highlightClassName,
+      title: group.label,
+      active: activeEntity?.key === key && activeEntity.text === entity.text && activeEntity.index === index,
+    }));
+  });
+
+  // Registry entries for the people, organizations and places, to open every
+  // document that mentions them
+  const { data: registryEntities } = useQuery<RegistryEntitySummary[]>({
+    queryKey: ["/api/entities", "document", params.id, document?.currentVersion, document?.status],
+    queryFn: async () => {
+      const res = await fetch(`/api/entities?documentId=${params.id}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return res.json();
+    },
+    enabled: !!locatedEntities,
+  });
+  const findRegistryEntity = (key: string, text: string) =>
+    registryEntities?.find(e => ENTITY_TYPE_KEYS[e.type] === key && e.aliases.includes(text));
+
+  // Each click on an entity shows its next occurrence in the Extracted Text tab
+  const showNextOccurrence = (key: string, text: string) => {
+    const occurrences = findLocated(key, text)?.occurrences || [];
+    if (occurrences.length === 0) return;
+    const index = activeEntity?.key === key && activeEntity.text === text
+      ? (activeEntity.index + 1) % occurrences.length
+      : 0;
+    setActiveEntity({ key, text, index });
+    if (showPageText) setPageNumber(occurrences[index].pageNumber);
+    setTab("text");
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-8">
@@ -173,9 +516,112 @@ export default function DocumentViewer() {
               {document.pageCount && ` • ${document.pageCount} pages`}
               {document.uploadDate && ` • Uploaded ${format(new Date(document.uploadDate), "MMM d, yyyy")}`}
             </p>
+            {parent && (
+              <Link href={`/documents/${document.parentId}`}>
+                <span
+                  className="text-sm text-primary hover:underline cursor-pointer inline-flex items-center gap-1 mt-1"
+                  data-testid="link-parent-document"
+                >
+                  <Paperclip className="w-3 h-3" />
+                  Attachment of {parent.originalName}
+                </span>
+              </Link>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {versions && versions.length > 1 && (
+            <Select
+              value={String(document.currentVersion ?? 1)}
+              onValueChange={(value) => switchVersionMutation.mutate(Number(value))}
+              disabled={switchVersionMutation.isPending || isInFlight(document.status)}
+            >
+              <SelectTrigger className="w-44" data-testid="select-document-version">
+                <History className="w-4 h-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(v => (
+                  <SelectItem key={v.version} value={String(v.version)}>
+                    Version {v.version}
+                    {v.uploadDate && ` • ${format(new Date(v.uploadDate), "MMM d")}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <input
+            ref={versionInputRef}
+            type="file"
+            accept={Object.entries(SUPPORTED_UPLOAD_TYPES).flatMap(([mime, exts]) => [mime, ...exts]).join(",")}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadVersionMutation.mutate(file);
+              e.target.value = "";
+            }}
+            data-testid="input-new-version"
+          />
+          <Button
+            variant="outline"
+            onClick={() => versionInputRef.current?.click()}
+            disabled={uploadVersionMutation.isPending || isInFlight(document.status)}
+            data-testid="button-upload-version"
+          >
+            {uploadVersionMutation.isPending
+              ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              : <Upload className="w-4 h-4 mr-2" />}
+            New Version
+          </Button>
+          {(document.status === "cancelled" || (document.status === "error" && document.failure?.retryable !== false)) && (
+            <Button
+              variant="outline"
+              onClick={() => actionMutation.mutate({ action: "retry" })}
+              disabled={actionMutation.isPending}
+              data-testid="button-retry-document"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retry
+            </Button>
+          )}
+          {isInFlight(document.status) ? (
+            <Button
+              variant="outline"
+              onClick={() => actionMutation.mutate({ action: "cancel" })}
+              disabled={actionMutation.isPending}
+              data-testid="button-cancel-processing"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Cancel Processing
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={openReprocessDialog}
+              data-testid="button-reprocess-document"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Reprocess
+            </Button>
+          )}
+          <a href={`/api/documents/${params.id}/file?download=1&version=${document.currentVersion ?? 1}`} download>
+            <Button variant="outline" data-testid="button-download-document">
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          </a>
+          <Link
+            href={
+              (document.currentVersion ?? 1) > 1
+                ? `/compare?left=${params.id}&leftVersion=${document.currentVersion! - 1}&right=${params.id}&rightVersion=${document.currentVersion}`
+                : `/compare?left=${params.id}`
+            }
+          >
+            <Button variant="outline" data-testid="button-compare-document">
+              <GitCompare className="w-4 h-4 mr-2" />
+              Compare
+            </Button>
+          </Link>
           <Link href={`/chat?document=${document.id}`}>
             <Button variant="outline" data-testid="button-ask-questions">
               <MessageSquare className="w-4 h-4 mr-2" />
@@ -188,7 +634,7 @@ export default function DocumentViewer() {
       <div className="grid lg:grid-cols-3 gap-6">
         <Card className="lg:col-span-2">
           <CardContent className="p-0">
-            <Tabs defaultValue="text" className="w-full">
+            <Tabs value={tab} onValueChange={setTab} className="w-full">
               <div className="border-b px-6 pt-4">
                 <TabsList className="bg-transparent p-0 h-auto gap-4">
                   <TabsTrigger 
@@ -197,6 +643,15 @@ export default function DocumentViewer() {
                   >
                     Extracted Text
                   </TabsTrigger>
+                  {isPdf && (
+                    <TabsTrigger 
+                      value="original"
+                      className="data-[state=active]:bg-transparent data-[state=active]:shadow-none border-b-2 border-transparent data-[state=active]:border-primary rounded-none pb-3"
+                      data-testid="tab-original"
+                    >
+                      Original
+                    </TabsTrigger>
+                  )}
                   <TabsTrigger 
                     value="entities"
                     className="data-[state=active]:bg-transparent data-[state=active]:shadow-none border-b-2 border-transparent data-[state=active]:border-primary rounded-none pb-3"
@@ -209,23 +664,119 @@ export default function DocumentViewer() {
                   >
                     Tables
                   </TabsTrigger>
+                  {form && (
+                    <TabsTrigger 
+                      value="form"
+                      className="data-[state=active]:bg-transparent data-[state=active]:shadow-none border-b-2 border-transparent data-[state=active]:border-primary rounded-none pb-3"
+                      data-testid="tab-form"
+                    >
+                      Form
+                    </TabsTrigger>
+                  )}
+                  <TabsTrigger 
+                    value="processing"
+                    className="data-[state=active]:bg-transparent data-[state=active]:shadow-none border-b-2 border-transparent data-[state=active]:border-primary rounded-none pb-3"
+                    data-testid="tab-processing"
+                  >
+                    Processing
+                  </TabsTrigger>
                 </TabsList>
               </div>
               
               <TabsContent value="text" className="mt-0">
                 <ScrollArea className="h-[500px] p-6">
-                  {document.status === "processing" ? (
+                  {isInFlight(document.status) ? (
                     <div className="text-center py-12">
                       <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-primary" />
-                      <p className="text-muted-foreground">Processing document...</p>
+                      <p className="text-muted-foreground">
+                        Processing document...{document.status === "processing" && ` ${document.processingProgress || 0}%`}
+                      </p>
+                    </div>
+                  ) : document.status === "needs_password" ? (
+                    <DocumentPasswordForm documentId={params.id} message={document.failure?.message} />
+                  ) : document.status === "error" ? (
+                    <div className="text-center py-12 max-w-md mx-auto" data-testid="document-failure">
+                      <AlertCircle className="w-8 h-8 mx-auto mb-4 text-destructive" />
+                      <p className="font-medium">
+                        {FAILURE_REASON_LABELS[document.failure?.reason ?? "unknown"]}
+                      </p>
+                      <p className="text-sm text-muted-foreground mt-2">
+                        {document.failure?.message ?? "Processing failed."}
+                      </p>
+                      {document.failure && (
+                        <p className="text-sm text-muted-foreground mt-2">
+                          {document.failure.retryable
+                            ? "This may be temporary, so retrying is worthwhile."
+                            : "Retrying the same file will fail again. Upload a new version or reprocess with different options."}
+                        </p>
+                      )}
+                      {document.failure?.detail && (
+                        <p className="text-xs text-muted-foreground font-mono mt-4 break-words">{document.failure.detail}</p>
+                      )}
+                    </div>
+                  ) : document.format === "image" && document.status === "completed" ? (
+                    <PageImageView documentId={params.id} pageCount={document.pageCount || 1} />
+                  ) : showPageText ? (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <Button
+                            size="icon"
+                            variant="outline"
+                            onClick={() => setPageNumber(n => n - 1)}
+                            disabled={pageNumber <= 1}
+                            data-testid="button-text-previous-page"
+                          >
+                            <ChevronLeft className="w-4 h-4" />
+                          </Button>
+                          <span className="text-sm text-muted-foreground tabular-nums">
+                            Page {pageNumber} of {pages!.length}
+                          </span>
+                          <Button
+                            size="icon"
+                            variant="outline"
+                            onClick={() => setPageNumber(n => n + 1)}
+                            disabled={pageNumber >= pages!.length}
+                            data-testid="button-text-next-page"
+                          >
+                            <ChevronRight className="w-4 h-4" />
+                          </Button>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setTab("original")}
+                          data-testid="button-view-original-page"
+                        >
+                          <FileText className="w-4 h-4 mr-2" />
+                          View Original Page
+                        </Button>
+                      </div>
+                      {pageLoading ? (
+                        <div className="space-y-2">
+                          <Skeleton className="h-4 w-full" />
+                          <Skeleton className="h-4 w-3/4" />
+                          <Skeleton className="h-4 w-5/6" />
+                        </div>
+                      ) : currentPage?.extractedText ? (
+                        <HighlightedText
+                          text={currentPage.extractedText}
+                          offset={currentPage.charStart}
+                          highlights={currentPage.charStart !== undefined ? entityHighlights : []}
+                          className="whitespace-pre-wrap font-mono text-sm leading-relaxed"
+                          data-testid="text-extracted-content"
+                        />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No text extracted from this page</p>
+                      )}
                     </div>
                   ) : document.extractedText ? (
-                    <div 
+                    <HighlightedText
+                      text={document.extractedText}
+                      highlights={entityHighlights}
                       className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap font-mono text-sm leading-relaxed"
                       data-testid="text-extracted-content"
-                    >
-                      {document.extractedText}
-                    </div>
+                    />
                   ) : (
                     <div className="text-center py-12">
                       <FileText className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
@@ -235,38 +786,71 @@ export default function DocumentViewer() {
                 </ScrollArea>
               </TabsContent>
 
+              {isPdf && (
+                <TabsContent value="original" className="mt-0">
+                  <ScrollArea className="h-[500px] p-6">
+                    <PdfViewer
+                      url={`/api/documents/${params.id}/file?version=${document.currentVersion ?? 1}`}
+                      pageNumber={pageNumber}
+                      onPageChange={setPageNumber}
+                    />
+                  </ScrollArea>
+                </TabsContent>
+              )}
+
               <TabsContent value="entities" className="mt-0">
                 <ScrollArea className="h-[500px] p-6">
                   {analysis?.entities ? (
                     <div className="space-y-4">
-                      {[
-                        { key: 'persons', label: 'person', icon: 'person' },
-                        { key: 'organizations', label: 'organization', icon: 'organization' },
-                        { key: 'locations', label: 'location', icon: 'location' },
-                        { key: 'dates', label: 'date', icon: 'date' },
-                        { key: 'money', label: 'money', icon: 'money' },
-                        { key: 'emails', label: 'email', icon: 'other' },
-                        { key: 'phones', label: 'phone', icon: 'other' }
-                      ].map(({ key, label, icon }) => {
-                        const items = analysis.entities[key as keyof typeof analysis.entities] || [];
+                      {locatedEntities && (
+                        <p className="text-sm text-muted-foreground">
+                          Click an entity to find it in the text; click again for its next occurrence.
+                        </p>
+                      )}
+                      {entityGroups.map(({ key, label, icon, className, items }) => {
                         if (!Array.isArray(items) || items.length === 0) return null;
                         
                         return (
                           <div key={key}>
-                            <h4 className="text-sm font-medium capitalize mb-2 flex items-center gap-2">
-                              <EntityIcon type={icon} />
-                              {label}s ({items.length})
+                            <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+                              {icon}
+                              {label} ({items.length})
                             </h4>
                             <div className="flex flex-wrap gap-2">
-                              {items.map((text: string, index: number) => (
-                                <Badge 
-                                  key={index} 
-                                  variant="secondary"
-                                  className={EntityBadgeColor(icon)}
-                                >
-                                  {text}
-                                </Badge>
-                              ))}
+                              {items.map((text: string, index: number) => {
+                                const located = findLocated(key, text);
+                                const occurrences = located?.occurrences || [];
+                                const isActive = activeEntity?.key === key && activeEntity.text === text;
+                                const registryEntity = findRegistryEntity(key, text);
+                                return (
+                                  <Badge 
+                                    key={index} 
+                                    variant="secondary"
+                                    className={`${className} ${occurrences.length > 0 ? "cursor-pointer" : ""} ${isActive ? "ring-2 ring-primary" : ""}`}
+                                    onClick={occurrences.length > 0 ? () => showNextOccurrence(key, text) : undefined}
+                                    title={describeNormalized(located?.normalized)}
+                                    data-testid={`badge-entity-${key}-${index}`}
+                                  >
+                                    {text}
+                                    {occurrences.length > 1 && (
+                                      <span className="ml-1.5 opacity-70 tabular-nums">
+                                        {isActive ? `${activeEntity.index + 1}/${occurrences.length}` : occurrences.length}
+                                      </span>
+                                    )}
+                                    {registryEntity && (
+                                      <Link
+                                        href={`/entities/${registryEntity._id}`}
+                                        onClick={(e) => e.stopPropagation()}
+                                        className="ml-1.5 opacity-70 hover:opacity-100"
+                                        title={`Mentioned in ${registryEntity.documentCount} document${registryEntity.documentCount === 1 ? "" : "s"}`}
+                                        data-testid={`link-entity-${key}-${index}`}
+                                      >
+                                        <Network className="w-3 h-3" />
+                                      </Link>
+                                    )}
+                                  </Badge>
+                                );
+                              })}
                             </div>
                           </div>
                         );
@@ -287,7 +871,7 @@ export default function DocumentViewer() {
                     <div className="space-y-6">
                       {tables.map((table, tableIndex) => (
                         <div key={tableIndex}>
-                          <h4 className="text-sm font-medium mb-3">Table {tableIndex + 1}</h4>
+                          <h4 className="text-sm font-medium mb-3">{table.name || `Table ${tableIndex + 1}`}</h4>
                           <div className="border rounded-lg overflow-hidden">
                             <Table>
                               <TableHeader>
@@ -303,13 +887,23 @@ export default function DocumentViewer() {
                                 {table.rows.map((row, rowIndex) => (
                                   <TableRow key={rowIndex}>
                                     {row.map((cell, cellIndex) => (
-                                      <TableCell key={cellIndex}>{cell}</TableCell>
+                                      <TableCell
+                                        key={cellIndex}
+                                        className={table.cells?.[rowIndex]?.[cellIndex]?.type === "number" ? "text-right tabular-nums" : undefined}
+                                      >
+                                        {cell}
+                                      </TableCell>
                                     ))}
                                   </TableRow>
                                 ))}
                               </TableBody>
                             </Table>
                           </div>
+                          {table.totalRows && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              Showing the first {table.rows.length.toLocaleString()} of {table.totalRows.toLocaleString()} rows
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -321,6 +915,28 @@ export default function DocumentViewer() {
                   )}
                 </ScrollArea>
               </TabsContent>
+
+              {form && (
+                <TabsContent value="form" className="mt-0">
+                  <ScrollArea className="h-[500px] p-6">
+                    <FormFieldsTable
+                      documentId={params.id}
+                      documentName={document.originalName}
+                      form={form}
+                      onPageSelect={isPdf ? (n) => {
+                        setPageNumber(n);
+                        setTab("original");
+                      } : undefined}
+                    />
+                  </ScrollArea>
+                </TabsContent>
+              )}
+
+              <TabsContent value="processing" className="mt-0">
+                <ScrollArea className="h-[500px] p-6">
+                  <ProcessingTimeline documentId={params.id} />
+                </ScrollArea>
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
@@ -335,6 +951,14 @@ export default function DocumentViewer() {
                 <span className="text-sm text-muted-foreground">Status</span>
                 {getStatusBadge(document.status)}
               </div>
+              {document.format && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Format</span>
+                  <span className="text-sm font-medium">
+                    {FORMAT_LABELS[document.format as DocumentFormat] || document.format}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-sm text-muted-foreground">Size</span>
                 <span className="text-sm font-medium">{formatFileSize(document.fileSize)}</span>
@@ -356,6 +980,94 @@ export default function DocumentViewer() {
             </CardContent>
           </Card>
 
+          {email && <EmailDetails documentId={params.id} email={email} />}
+
+          {(pdfMetadata || navigation) && (
+            <PdfMetadataPanel
+              metadata={pdfMetadata}
+              navigation={navigation}
+              onPageSelect={(n) => {
+                setPageNumber(n);
+                setTab(isPdf ? "original" : "text");
+              }}
+            />
+          )}
+
+          {pages && pages.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base font-medium flex items-center justify-between gap-2">
+                  Pages
+                  {ocrPageCount > 0 && (
+                    <Badge variant="secondary" className="font-normal">
+                      <ScanText className="w-3 h-3 mr-1" />
+                      {ocrPageCount} OCR
+                    </Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="max-h-48">
+                  <div className="space-y-2" data-testid="list-pages">
+                    {pages.map((page) => (
+                      <div
+                        key={page.pageNumber}
+                        className={`flex justify-between text-sm ${isPdf ? "cursor-pointer hover:underline" : ""}`}
+                        onClick={isPdf ? () => setPageNumber(page.pageNumber) : undefined}
+                      >
+                        <span className={page.pageNumber === pageNumber && isPdf ? "font-medium" : "text-muted-foreground"}>
+                          Page {page.pageNumber}
+                        </span>
+                        {page.extractionMethod === "ocr" ? (
+                          <span className="font-medium">
+                            OCR · {Math.round((page.ocrConfidence ?? 0) * 100)}% confidence
+                          </span>
+                        ) : (
+                          <span className="font-medium">
+                            {document.format === "pdf" ? "Text layer" : "Text"}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+
+          {headings.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base font-medium flex items-center gap-2">
+                  <ListTree className="w-4 h-4" />
+                  Outline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="max-h-64">
+                  <div className="space-y-1.5" data-testid="list-outline">
+                    {headings.map((heading, index) => (
+                      <div
+                        key={index}
+                        className="flex justify-between gap-2 text-sm"
+                        style={{ paddingLeft: `${(heading.level - minHeadingLevel) * 12}px` }}
+                      >
+                        <span className={heading.level === minHeadingLevel ? "font-medium" : "text-muted-foreground"}>
+                          {heading.text}
+                        </span>
+                        {(document.pageCount || 0) > 1 && (
+                          <span className="text-xs text-muted-foreground flex-shrink-0">
+                            p. {heading.pageNumber}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+
           {analysis && (
             <>
               <Card>
@@ -417,6 +1129,65 @@ export default function DocumentViewer() {
           )}
         </div>
       </div>
+
+      <Dialog open={reprocessOpen} onOpenChange={setReprocessOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reprocess document</DialogTitle>
+            <DialogDescription>
+              The document will run through the pipeline again. Its current pages
+              and extractions are replaced by the new results.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="reprocess-ai">AI enhancement</Label>
+              <Switch
+                id="reprocess-ai"
+                checked={reprocessOptions.aiEnhancement}
+                onCheckedChange={(checked) => setReprocessOptions(o => ({ ...o, aiEnhancement: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="reprocess-ocr">OCR</Label>
+              <Select
+                value={reprocessOptions.ocr}
+                onValueChange={(value) => setReprocessOptions(o => ({ ...o, ocr: value as Required<ProcessingOptions>["ocr"] }))}
+              >
+                <SelectTrigger id="reprocess-ocr" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Pages without text</SelectItem>
+                  <SelectItem value="always">Every page</SelectItem>
+                  <SelectItem value="never">Never</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="reprocess-tables">Table detection</Label>
+              <Switch
+                id="reprocess-tables"
+                checked={reprocessOptions.tableDetection}
+                onCheckedChange={(checked) => setReprocessOptions(o => ({ ...o, tableDetection: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReprocessOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => actionMutation.mutate({ action: "reprocess", options: reprocessOptions })}
+              disabled={actionMutation.isPending}
+              data-testid="button-confirm-reprocess"
+            >
+              {actionMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Reprocess
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -35,10 +35,16 @@ import {
   Filter,
   MessageCircle,
   Trash2,
+  RotateCcw,
+  XCircle,
+  Ban,
+  Lock,
 } from "lucide-react";
-import type { Document } from "@shared/mongo-schema";
+import type { Document, FailureReason } from "@shared/mongo-schema";
+import { FAILURE_REASON_LABELS } from "@shared/failures";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import { apiRequest } from "@/lib/queryClient";
 
 function getStatusBadge(status: string) {
   switch (status) {
@@ -53,6 +59,10 @@ function getStatusBadge(status: string) {
       );
     case "error":
       return <Badge variant="destructive">Error</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary">Cancelled</Badge>;
+    case "needs_password":
+      return <Badge variant="secondary" className="bg-amber-600/10 text-amber-700 border-0">Password Required</Badge>;
     default:
       return <Badge variant="secondary">Pending</Badge>;
   }
@@ -66,12 +76,23 @@ function getStatusIcon(status: string) {
       return <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />;
     case "error":
       return <AlertCircle className="w-5 h-5 text-destructive" />;
+    case "cancelled":
+      return <Ban className="w-5 h-5 text-muted-foreground" />;
+    case "needs_password":
+      return <Lock className="w-5 h-5 text-amber-600" />;
     default:
       return <Clock className="w-5 h-5 text-muted-foreground" />;
   }
 }
 
-function DocumentRow({ doc, openDeleteDialog }: { doc: Document, openDeleteDialog: (doc: Document) => void }) {
+interface DocumentRowProps {
+  doc: Document;
+  openDeleteDialog: (doc: Document) => void;
+  onRetry: (doc: Document) => void;
+  onCancel: (doc: Document) => void;
+}
+
+function DocumentRow({ doc, openDeleteDialog, onRetry, onCancel }: DocumentRowProps) {
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
@@ -99,6 +120,11 @@ function DocumentRow({ doc, openDeleteDialog }: { doc: Document, openDeleteDialo
               {doc.uploadDate && format(new Date(doc.uploadDate), "MMM d, yyyy")}
             </span>
           </div>
+          {doc.status === 'error' && doc.failure && (
+            <p className="text-sm text-destructive mt-1" data-testid={`text-failure-${(doc as any)._id}`}>
+              {doc.failure.message}
+            </p>
+          )}
         </div>
         <div className="flex items-center gap-3 flex-shrink-0 w-full sm:w-auto">
           <div className="flex-1 sm:flex-none">
@@ -118,6 +144,36 @@ function DocumentRow({ doc, openDeleteDialog }: { doc: Document, openDeleteDialo
               </Button>
             </Link>
           )}
+          {(doc.status === 'cancelled' || (doc.status === 'error' && doc.failure?.retryable !== false)) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onRetry(doc);
+              }}
+              data-testid={`button-retry-${(doc as any)._id}`}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retry
+            </Button>
+          )}
+          {(doc.status === 'pending' || doc.status === 'processing') && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onCancel(doc);
+              }}
+              data-testid={`button-cancel-${(doc as any)._id}`}
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
           <Button 
             variant="ghost"
             size="icon"
@@ -138,6 +194,7 @@ function DocumentRow({ doc, openDeleteDialog }: { doc: Document, openDeleteDialo
 export default function Documents() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [reasonFilter, setReasonFilter] = useState("all");
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [documentToDelete, setDocumentToDelete] = useState<Document | null>(null);
 
@@ -145,9 +202,21 @@ export default function Documents() {
 
   const { data: documents, isLoading } = useQuery<Document[]>({
     queryKey: ["/api/documents"],
-    refetchInterval: 5000,
   });
 
+  // Names are matched locally; the server also matches the values of form fields
+  const trimmedQuery = searchQuery.trim();
+  const { data: searchMatches } = useQuery<Document[]>({
+    queryKey: ["/api/documents", "search", trimmedQuery],
+    queryFn: async () => {
+      const res = await fetch(`/api/documents?q=${encodeURIComponent(trimmedQuery)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return res.json();
+    },
+    enabled: trimmedQuery.length > 0,
+  });
+  const searchMatchIds = new Set(searchMatches?.map(doc => (doc as any)._id));
+
   const deleteMutation = useMutation({
     mutationFn: (id: string) => fetch(`/api/documents/${id}`, { method: "DELETE" }),
     onSuccess: () => {
@@ -163,6 +232,28 @@ export default function Documents() {
     }
   });
 
+  const retryMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/documents/${id}/retry`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast.success("Document queued for processing");
+    },
+    onError: () => {
+      toast.error("Failed to retry document");
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/documents/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast.success("Processing cancelled");
+    },
+    onError: () => {
+      toast.error("Failed to cancel processing");
+    },
+  });
+
   const openDeleteDialog = (doc: Document) => {
     setDocumentToDelete(doc);
     setIsDeleteDialogOpen(true);
@@ -175,9 +266,13 @@ export default function Documents() {
   };
 
   const filteredDocuments = documents?.filter(doc => {
-    const matchesSearch = doc.originalName.toLowerCase().includes(searchQuery.toLowerCase());
+    const matchesSearch = doc.originalName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      searchMatchIds.has((doc as any)._id);
     const matchesStatus = statusFilter === "all" || doc.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    // Documents that failed before reasons were recorded count as unexpected errors
+    const matchesReason = reasonFilter === "all" ||
+      (doc.status === "error" && (doc.failure?.reason ?? "unknown") === reasonFilter);
+    return matchesSearch && matchesStatus && matchesReason;
   }).sort((a, b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime());
 
   return (
@@ -203,7 +298,7 @@ export default function Documents() {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
-                placeholder="Search documents..."
+                placeholder='Search documents, or values like "amount > 10,000"...'
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
@@ -221,6 +316,20 @@ export default function Documents() {
                 <SelectItem value="processing">Processing</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
                 <SelectItem value="error">Error</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="needs_password">Password Required</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={reasonFilter} onValueChange={setReasonFilter}>
+              <SelectTrigger className="w-full sm:w-56" data-testid="select-failure-filter">
+                <AlertCircle className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Failure reason" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Failure Reasons</SelectItem>
+                {(Object.keys(FAILURE_REASON_LABELS) as FailureReason[]).map(reason => (
+                  <SelectItem key={reason} value={reason}>{FAILURE_REASON_LABELS[reason]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -242,7 +351,13 @@ export default function Documents() {
           ) : filteredDocuments && filteredDocuments.length > 0 ? (
             <div className="space-y-3">
               {filteredDocuments.map((doc) => (
-                <DocumentRow key={doc.id} doc={doc} openDeleteDialog={openDeleteDialog} />
+                <DocumentRow
+                  key={doc.id}
+                  doc={doc}
+                  openDeleteDialog={openDeleteDialog}
+                  onRetry={(d) => retryMutation.mutate((d as any)._id)}
+                  onCancel={(d) => cancelMutation.mutate((d as any)._id)}
+                />
               ))}
             </div>
           ) : (
@@ -251,18 +366,18 @@ export default function Documents() {
                 <FileText className="w-8 h-8 text-muted-foreground" />
               </div>
               <h3 className="font-medium mb-2">
-                {searchQuery || statusFilter !== "all" 
+                {searchQuery || statusFilter !== "all" || reasonFilter !== "all" 
                   ? "No documents found" 
                   : "No documents yet"
                 }
               </h3>
               <p className="text-sm text-muted-foreground mb-4 max-w-sm mx-auto">
-                {searchQuery || statusFilter !== "all"
+                {searchQuery || statusFilter !== "all" || reasonFilter !== "all"
                   ? "Try adjusting your search or filter criteria"
-                  : "Upload your first PDF to start extracting text and analyzing content"
+                  : "Upload your first document to start extracting text and analyzing content"
                 }
               </p>
-              {!searchQuery && statusFilter === "all" && (
+              {!searchQuery && statusFilter === "all" && reasonFilter === "all" && (
                 <Link href="/upload">
                   <Button size="sm">
                     <Upload className="w-4 h-4 mr-2" />
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Filter, Network, Search, Tag } from "lucide-react";
+import { RegistryEntityIcon } from "@/components/registry-entity-icon";
+import type { RegistryEntitySummary } from "@shared/mongo-schema";
+import { ENTITY_LABELS, ENTITY_TYPE_KEYS } from "@shared/entities";
+
+export default function Entities() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [typeFilter, setTypeFilter] = useState("all");
+
+  const trimmedQuery = searchQuery.trim();
+  const { data: entities, isLoading } = useQuery<RegistryEntitySummary[]>({
+    queryKey: ["/api/entities", typeFilter, trimmedQuery],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (typeFilter !== "all") params.set("type", typeFilter);
+      if (trimmedQuery) params.set("q", trimmedQuery);
+      const res = await fetch(`/api/entities?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold" data-testid="text-entities-title">Entities</h1>
+          <p className="text-muted-foreground mt-1">
+            People, organizations and places across your documents
+          </p>
+        </div>
+        <Link href="/entity-types">
+          <Button variant="outline" data-testid="button-custom-entity-types">
+            <Tag className="w-4 h-4 mr-2" />
+            Custom Types
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-4">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search names and their spellings..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+                data-testid="input-search-entities"
+              />
+            </div>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-full sm:w-48" data-testid="select-entity-type">
+                <Filter className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                <SelectItem value="person">{ENTITY_LABELS.persons}</SelectItem>
+                <SelectItem value="organization">{ENTITY_LABELS.organizations}</SelectItem>
+                <SelectItem value="location">{ENTITY_LABELS.locations}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <div key={i} className="flex items-center gap-4 p-4 rounded-lg bg-muted/50">
+                  <Skeleton className="w-10 h-10 rounded-lg" />
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-5 w-48" />
+                    <Skeleton className="h-4 w-32" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : entities && entities.length > 0 ? (
+            <div className="space-y-3">
+              {entities.map((entity) => (
+                <Link key={entity._id} href={`/entities/${entity._id}`}>
+                  <div
+                    className="flex items-center gap-4 p-4 rounded-lg border hover-elevate cursor-pointer"
+                    data-testid={`row-entity-${entity._id}`}
+                  >
+                    <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center flex-shrink-0 text-muted-foreground">
+                      <RegistryEntityIcon type={entity.type} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{entity.name}</p>
+                      {entity.aliases.length > 1 && (
+                        <p className="text-sm text-muted-foreground truncate">
+                          Also written as {entity.aliases.slice(1).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <Badge variant="secondary">{ENTITY_LABELS[ENTITY_TYPE_KEYS[entity.type]]}</Badge>
+                    <span className="text-sm text-muted-foreground whitespace-nowrap tabular-nums">
+                      {entity.documentCount} document{entity.documentCount === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-16">
+              <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                <Network className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="font-medium mb-2">
+                {trimmedQuery || typeFilter !== "all" ? "No entities found" : "No entities yet"}
+              </h3>
+              <p className="text-sm text-muted-foreground max-w-sm mx-auto">
+                {trimmedQuery || typeFilter !== "all"
+                  ? "Try adjusting your search or filter criteria"
+                  : "People, organizations and places are collected as your documents are processed"}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
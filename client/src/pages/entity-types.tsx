@@ -0,0 +1,322 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, FileUp, Loader2, Pencil, Plus, Tag, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CUSTOM_ENTITY_COLOR_CLASSES } from "@/lib/entity-colors";
+import type { CustomEntityColor, CustomEntityType } from "@shared/mongo-schema";
+
+interface TypeForm {
+  name: string;
+  color: CustomEntityColor;
+  terms: string;
+  patterns: string;
+  caseSensitive: boolean;
+}
+
+const EMPTY_FORM: TypeForm = { name: "", color: "blue", terms: "", patterns: "", caseSensitive: false };
+
+function lines(text: string): string[] {
+  return Array.from(new Set(text.split("\n").map(line => line.trim()).filter(Boolean)));
+}
+
+// The first cell of each row of a CSV dictionary
+function csvFirstColumn(csv: string): string[] {
+  return csv.split(/\r?\n/).map(row => {
+    const quoted = row.match(/^\s*"((?:[^"]|"")*)"/);
+    return (quoted ? quoted[1].replace(/""/g, '"') : row.split(/[,;\t]/)[0]).trim();
+  }).filter(Boolean);
+}
+
+export default function EntityTypes() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<CustomEntityType | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<TypeForm>(EMPTY_FORM);
+
+  const { data: types, isLoading } = useQuery<CustomEntityType[]>({
+    queryKey: ["/api/entity-types"],
+  });
+
+  const openDialog = (type: CustomEntityType | null) => {
+    setEditing(type);
+    setForm(type
+      ? {
+          name: type.name,
+          color: type.color,
+          terms: type.terms.join("\n"),
+          patterns: type.patterns.join("\n"),
+          caseSensitive: type.caseSensitive,
+        }
+      : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const onSaved = (refreshing: number, title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/entity-types"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+    toast({
+      title,
+      description: refreshing > 0
+        ? `Updating the custom entities of ${refreshing} document${refreshing === 1 ? "" : "s"}`
+        : undefined,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name.trim(),
+        color: form.color,
+        terms: lines(form.terms),
+        patterns: lines(form.patterns),
+        caseSensitive: form.caseSensitive,
+      };
+      const res = editing
+        ? await apiRequest("PATCH", `/api/entity-types/${(editing as any)._id}`, body)
+        : await apiRequest("POST", "/api/entity-types", body);
+      return res.json();
+    },
+    onSuccess: (data: { refreshing: number }) => {
+      setDialogOpen(false);
+      onSaved(data.refreshing, editing ? "Entity type saved" : "Entity type created");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save entity type",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/entity-types/${id}`);
+      return res.json();
+    },
+    onSuccess: (data: { refreshing: number }) => onSaved(data.refreshing, "Entity type deleted"),
+    onError: (error: Error) => {
+      toast({
+        title: "Could not delete entity type",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importCsv = async (file: File) => {
+    const imported = csvFirstColumn(await file.text());
+    setForm(f => ({ ...f, terms: lines([f.terms, ...imported].join("\n")).join("\n") }));
+    toast({ title: `Imported ${imported.length} term${imported.length === 1 ? "" : "s"} from ${file.name}` });
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/entities">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-semibold" data-testid="text-entity-types-title">Custom Entity Types</h1>
+            <p className="text-muted-foreground mt-1">
+              Your own vocabulary, such as product codes, project names or clients, found in every document
+            </p>
+          </div>
+        </div>
+        <Button onClick={() => openDialog(null)} data-testid="button-new-entity-type">
+          <Plus className="w-4 h-4 mr-2" />
+          New Type
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : types && types.length > 0 ? (
+            <div className="space-y-3">
+              {types.map((type) => (
+                <div
+                  key={(type as any)._id}
+                  className="flex items-center gap-4 p-4 rounded-lg border"
+                  data-testid={`row-entity-type-${(type as any)._id}`}
+                >
+                  <Badge variant="secondary" className={CUSTOM_ENTITY_COLOR_CLASSES[type.color]}>
+                    <Tag className="w-3 h-3 mr-1" />
+                    {type.name}
+                  </Badge>
+                  <p className="flex-1 min-w-0 text-sm text-muted-foreground truncate">
+                    {[
+                      `${type.terms.length} term${type.terms.length === 1 ? "" : "s"}`,
+                      `${type.patterns.length} pattern${type.patterns.length === 1 ? "" : "s"}`,
+                      type.caseSensitive && "case sensitive",
+                    ].filter(Boolean).join(" · ")}
+                  </p>
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(type)} data-testid={`button-edit-entity-type-${(type as any)._id}`}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate((type as any)._id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-entity-type-${(type as any)._id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-16">
+              <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                <Tag className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="font-medium mb-2">No custom entity types yet</h3>
+              <p className="text-sm text-muted-foreground max-w-sm mx-auto">
+                Define a type with a list of terms, a CSV dictionary or regex patterns
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit entity type" : "New entity type"}</DialogTitle>
+            <DialogDescription>
+              Terms are matched as whole words; patterns are regular expressions in RE2 syntax, without backreferences or lookarounds.
+              Processed documents are updated when the type is saved.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="flex gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="entity-type-name">Name</Label>
+                <Input
+                  id="entity-type-name"
+                  value={form.name}
+                  onChange={(e) => setForm(f => ({ ...f, name: e.target.value }))}
+                  placeholder="Product codes"
+                  data-testid="input-entity-type-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="entity-type-color">Colour</Label>
+                <Select value={form.color} onValueChange={(value) => setForm(f => ({ ...f, color: value as CustomEntityColor }))}>
+                  <SelectTrigger id="entity-type-color" className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CUSTOM_ENTITY_COLOR_CLASSES) as CustomEntityColor[]).map(color => (
+                      <SelectItem key={color} value={color}>
+                        <span className={`inline-block w-3 h-3 rounded-full mr-2 ${CUSTOM_ENTITY_COLOR_CLASSES[color]}`} />
+                        {color[0].toUpperCase() + color.slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="entity-type-terms">Terms, one per line</Label>
+                <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} data-testid="button-import-terms">
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Import CSV
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.txt,text/csv,text/plain"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importCsv(file);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+              <Textarea
+                id="entity-type-terms"
+                rows={6}
+                value={form.terms}
+                onChange={(e) => setForm(f => ({ ...f, terms: e.target.value }))}
+                placeholder={"Project Apollo\nAcme Widget Pro"}
+                data-testid="input-entity-type-terms"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entity-type-patterns">Patterns, one per line</Label>
+              <Textarea
+                id="entity-type-patterns"
+                rows={3}
+                value={form.patterns}
+                onChange={(e) => setForm(f => ({ ...f, patterns: e.target.value }))}
+                placeholder={"\\bPRD-\\d{4}\\b"}
+                className="font-mono text-sm"
+                data-testid="input-entity-type-patterns"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="entity-type-case">Case sensitive</Label>
+              <Switch
+                id="entity-type-case"
+                checked={form.caseSensitive}
+                onCheckedChange={(checked) => setForm(f => ({ ...f, caseSensitive: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.name.trim()}
+              data-testid="button-save-entity-type"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, ArrowLeft, FileText } from "lucide-react";
+import type { RegistryEntityDetail } from "@shared/mongo-schema";
+import { ENTITY_LABELS, ENTITY_TYPE_KEYS } from "@shared/entities";
+import { FORMAT_LABELS, type DocumentFormat } from "@shared/file-types";
+import { format } from "date-fns";
+import { RegistryEntityIcon } from "@/components/registry-entity-icon";
+
+function formatPages(pageNumbers: number[]) {
+  if (pageNumbers.length === 0) return null;
+  return `${pageNumbers.length === 1 ? "Page" : "Pages"} ${pageNumbers.join(", ")}`;
+}
+
+export default function EntityDetail() {
+  const params = useParams<{ id: string }>();
+
+  const { data: entity, isLoading } = useQuery<RegistryEntityDetail>({
+    queryKey: ["/api/entities", params.id],
+    enabled: !!params.id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-8">
+        <div className="flex items-center gap-4">
+          <Skeleton className="h-9 w-9" />
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-64" />
+            <Skeleton className="h-4 w-48" />
+          </div>
+        </div>
+        <Card>
+          <CardContent className="p-6 space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!entity) {
+    return (
+      <div className="text-center py-16">
+        <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+          <AlertCircle className="w-8 h-8 text-muted-foreground" />
+        </div>
+        <h3 className="font-medium mb-2">Entity not found</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          No current document mentions this entity any more
+        </p>
+        <Link href="/entities">
+          <Button variant="outline">Back to Entities</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-4">
+        <Link href="/entities">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+        </Link>
+        <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center text-muted-foreground">
+          <RegistryEntityIcon type={entity.type} />
+        </div>
+        <div>
+          <div className="flex items-center gap-3 flex-wrap">
+            <h1 className="text-2xl font-semibold" data-testid="text-entity-name">{entity.name}</h1>
+            <Badge variant="secondary">{ENTITY_LABELS[ENTITY_TYPE_KEYS[entity.type]]}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {entity.mentionCount} mention{entity.mentionCount === 1 ? "" : "s"} in {entity.documentCount} document{entity.documentCount === 1 ? "" : "s"}
+          </p>
+        </div>
+      </div>
+
+      {entity.aliases.length > 1 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Also written as</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {entity.aliases.slice(1).map((alias) => (
+              <Badge key={alias} variant="outline" data-testid={`badge-alias-${alias}`}>{alias}</Badge>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Documents mentioning {entity.name}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {entity.documents.map((doc) => (
+            <Link key={doc.documentId} href={`/documents/${doc.documentId}`}>
+              <div
+                className="flex items-center gap-4 p-4 rounded-lg border hover-elevate cursor-pointer"
+                data-testid={`row-entity-document-${doc.documentId}`}
+              >
+                <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                  <FileText className="w-5 h-5 text-primary" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{doc.originalName}</p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {[
+                      doc.format && (FORMAT_LABELS[doc.format as DocumentFormat] || doc.format),
+                      doc.uploadDate && format(new Date(doc.uploadDate), "MMM d, yyyy"),
+                      formatPages(doc.pageNumbers),
+                    ].filter(Boolean).join(" · ")}
+                  </p>
+                  {doc.variants.some((variant) => variant !== entity.name) && (
+                    <p className="text-xs text-muted-foreground truncate">As {doc.variants.join(", ")}</p>
+                  )}
+                </div>
+                <span className="text-sm text-muted-foreground whitespace-nowrap tabular-nums">
+                  {doc.count} mention{doc.count === 1 ? "" : "s"}
+                </span>
+              </div>
+            </Link>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -17,7 +17,7 @@ export default function Landing() {
     {
       icon: Upload,
       title: "Smart Upload",
-      description: "Drag and drop PDFs with intelligent processing and progress tracking"
+      description: "Drag and drop PDFs, Word files and more with intelligent processing and progress tracking"
     },
     {
       icon: FileText,
@@ -78,7 +78,7 @@ export default function Landing() {
                 <span className="text-primary">Actionable Insights</span>
               </h1>
               <p className="text-lg text-muted-foreground mb-10 max-w-2xl mx-auto leading-relaxed">
-                Upload PDFs, extract text and tables, analyze content with AI, and get instant answers 
+                Upload PDFs and Word documents, extract text and tables, analyze content with AI, and get instant answers 
                 to your questions. The intelligent document processing platform for modern teams.
               </p>
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
@@ -2,6 +2,15 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { 
   Chart as ChartJS, 
   CategoryScale, 
@@ -19,11 +28,13 @@ import {
   FileText, 
   Brain,
   TrendingUp,
-  FileDown
+  FileDown,
+  Filter,
+  AlertCircle
 } from "lucide-react";
 import type { ReportsData } from "@shared/mongo-schema";
 import { exportToPdf, exportToWord } from '@/lib/exporter';
-import { useRef } from "react";
+import { useRef, useState } from "react";
 
 ChartJS.register(
   CategoryScale,
@@ -70,13 +81,17 @@ function StatCard({
 }
 
 export default function Reports() {
-  const { data: reports, isLoading } = useQuery<ReportsData>({
-    queryKey: ["/api/reports"],
+  // Limits the reports to documents with values in a range, e.g. "amount > 10,000"
+  const [filterInput, setFilterInput] = useState("");
+  const [filter, setFilter] = useState("");
+  const { data: reports, isLoading, error } = useQuery<ReportsData>({
+    queryKey: [filter ? `/api/reports?filter=${encodeURIComponent(filter)}` : "/api/reports"],
   });
 
   const charts = {
     documentsOverTime: useRef<ChartJS>(null),
     entityDistribution: useRef<ChartJS>(null),
+    entityTypes: useRef<ChartJS<"bar">>(null),
     topKeywords: useRef<ChartJS>(null),
     statusDistribution: useRef<ChartJS>(null),
   }
@@ -109,6 +124,17 @@ export default function Reports() {
     ],
   };
 
+  const entityTypesData = {
+    labels: reports?.entityTypes?.map(e => e.type) || [],
+    datasets: [
+      {
+        label: 'Count',
+        data: reports?.entityTypes?.map(e => e.count) || [],
+        backgroundColor: 'hsl(var(--chart-3))',
+      },
+    ],
+  };
+
   const topKeywordsData = {
     labels: reports?.topKeywords?.slice(0, 8).map(k => k.keyword) || [],
     datasets: [
@@ -151,6 +177,7 @@ export default function Reports() {
     const chartInstances = {
       documentsOverTime: charts.documentsOverTime.current,
       entityDistribution: charts.entityDistribution.current,
+      entityTypes: charts.entityTypes.current,
       topKeywords: charts.topKeywords.current,
       statusDistribution: charts.statusDistribution.current,
     };
@@ -185,6 +212,44 @@ export default function Reports() {
         </div>
       </div>
 
+      <form
+        className="flex flex-col sm:flex-row gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setFilter(filterInput.trim());
+        }}
+      >
+        <div className="relative flex-1">
+          <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder='Only documents with… e.g. "amount > 10,000", "dates in Q3 2024", "percentage >= 20"'
+            value={filterInput}
+            onChange={(e) => setFilterInput(e.target.value)}
+            className="pl-9"
+            data-testid="input-reports-filter"
+          />
+        </div>
+        <Button type="submit" variant="outline" data-testid="button-apply-reports-filter">Apply</Button>
+        {filter && (
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              setFilterInput("");
+              setFilter("");
+            }}
+          >
+            Clear
+          </Button>
+        )}
+      </form>
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="w-4 h-4" />
+          {error instanceof Error ? error.message : "Failed to load reports"}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard title="Total Documents" value={reports?.totalDocuments?.toLocaleString() ?? 0} icon={FileText} loading={isLoading} />
         <StatCard title="Total Pages" value={reports?.totalPages?.toLocaleString() ?? 0} icon={Brain} loading={isLoading} />
@@ -212,6 +277,55 @@ export default function Reports() {
         </Card>
       </div>
 
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">Entities by Type</CardTitle>
+          </CardHeader>
+          <CardContent className="h-64">
+            {isLoading ? <Skeleton className="h-full w-full" /> : <Bar ref={charts.entityTypes} options={{ ...chartOptions('Entities by Type'), indexAxis: 'y' as const }} data={entityTypesData} />}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">Amounts by Currency</CardTitle>
+          </CardHeader>
+          <CardContent className="h-64 overflow-auto">
+            {isLoading ? (
+              <Skeleton className="h-full w-full" />
+            ) : reports?.amountsByCurrency?.length ? (
+              <Table data-testid="table-amounts-by-currency">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Currency</TableHead>
+                    <TableHead className="text-right">Amounts</TableHead>
+                    <TableHead className="text-right">Smallest</TableHead>
+                    <TableHead className="text-right">Largest</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.amountsByCurrency.map(({ currency, count, min, max }) => (
+                    <TableRow key={currency}>
+                      <TableCell className="font-medium">{currency}</TableCell>
+                      <TableCell className="text-right tabular-nums">{count.toLocaleString()}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {min.toLocaleString(undefined, { style: "currency", currency })}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {max.toLocaleString(undefined, { style: "currency", currency })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No amounts found</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       <div className="grid lg:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
@@ -1,12 +1,32 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { useDropzone } from "react-dropzone";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useDocumentEvents } from "@/hooks/useDocumentEvents";
+import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { BatchProgress } from "@/components/batch-progress";
+import {
+  ARCHIVE_UPLOAD_TYPES,
+  isArchiveUpload,
+  isSupportedUpload,
+  SUPPORTED_FORMATS_LABEL,
+  SUPPORTED_UPLOAD_TYPES,
+} from "@shared/file-types";
+import type { DocumentEvent, DuplicatePolicy } from "@shared/mongo-schema";
 import { 
   Upload as UploadIcon, 
   FileText, 
@@ -15,6 +35,7 @@ import {
   AlertCircle,
   Loader2,
   Cloud,
+  Copy,
 } from "lucide-react";
 
 interface UploadingFile {
@@ -23,6 +44,36 @@ interface UploadingFile {
   status: "uploading" | "processing" | "completed" | "error";
   error?: string;
   documentId?: string;
+  // Set for ZIP archives, which are expanded into a batch of documents
+  batchId?: string;
+  // The earlier upload with the same content, if there is one
+  duplicateOf?: { id: string; originalName: string };
+  // Pushed while the uploaded document is processed
+  processingProgress?: number;
+}
+
+// Where a file stands once its upload has returned: archives are done (their
+// batch is tracked separately), documents until they finish processing
+function statusAfterUpload(result: any): UploadingFile["status"] {
+  if (result.batchId || result.status === "completed") return "completed";
+  if (result.status === "error") return "error";
+  return "processing";
+}
+
+function applyEvent(file: UploadingFile, event: DocumentEvent): UploadingFile {
+  if (file.documentId !== event.documentId || file.status !== "processing") return file;
+  if (event.type === "completed") return { ...file, status: "completed" };
+  if (event.type === "needs_password") {
+    return { ...file, status: "error", error: "Password required. Open the document to enter it." };
+  }
+  if (event.type === "error" || event.type === "cancelled") {
+    return {
+      ...file,
+      status: "error",
+      error: event.type === "error" ? event.error || "Processing failed" : "Processing cancelled",
+    };
+  }
+  return { ...file, processingProgress: event.processingProgress ?? file.processingProgress };
 }
 
 export default function Upload() {
@@ -30,6 +81,25 @@ export default function Upload() {
   const [files, setFiles] = useState<UploadingFile[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  // Processing can get going before the upload response is handled, so the
+  // latest event of each document is kept for files that are not matched yet
+  const latestEvents = useRef(new Map<string, DocumentEvent>());
+  useDocumentEvents((event) => {
+    latestEvents.current.set(event.documentId, event);
+    setFiles(prev => prev.map(f => applyEvent(f, event)));
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: async (duplicatePolicy: DuplicatePolicy) => {
+      const res = await apiRequest("PATCH", "/api/auth/user/preferences", { duplicatePolicy });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
 
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -44,7 +114,10 @@ export default function Upload() {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || "Upload failed");
+        // Rejected duplicates say which document they duplicate
+        throw Object.assign(new Error(error.message || "Upload failed"), {
+          duplicateOf: error.duplicateOf,
+        });
       }
 
       return response.json();
@@ -64,20 +137,20 @@ export default function Upload() {
   });
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const pdfFiles = acceptedFiles.filter(file => 
-      file.type === "application/pdf"
+    const supportedFiles = acceptedFiles.filter(file =>
+      isSupportedUpload(file.name, file.type) || isArchiveUpload(file.name, file.type)
     );
 
-    if (pdfFiles.length === 0) {
+    if (supportedFiles.length === 0) {
       toast({
         title: "Invalid file type",
-        description: "Please upload PDF files only",
+        description: `Supported formats: ${SUPPORTED_FORMATS_LABEL}, or a ZIP archive of them`,
         variant: "destructive",
       });
       return;
     }
 
-    const newFiles: UploadingFile[] = pdfFiles.map(file => ({
+    const newFiles: UploadingFile[] = supportedFiles.map(file => ({
       file,
       progress: 0,
       status: "uploading",
@@ -85,8 +158,8 @@ export default function Upload() {
 
     setFiles(prev => [...prev, ...newFiles]);
 
-    for (let i = 0; i < pdfFiles.length; i++) {
-      const file = pdfFiles[i];
+    for (let i = 0; i < supportedFiles.length; i++) {
+      const file = supportedFiles[i];
       const fileIndex = files.length + i;
 
       try {
@@ -96,13 +169,18 @@ export default function Upload() {
 
         const result = await uploadMutation.mutateAsync(file);
 
+        const uploaded: UploadingFile = {
+          file,
+          progress: 100,
+          status: statusAfterUpload(result),
+          processingProgress: result.processingProgress,
+          documentId: result._id,
+          batchId: result.batchId,
+          duplicateOf: result.duplicateOf,
+        };
+        const latest = result._id && latestEvents.current.get(result._id);
         setFiles(prev => prev.map((f, idx) => 
-          idx === fileIndex ? { 
-            ...f, 
-            progress: 100, 
-            status: "completed",
-            documentId: result.id,
-          } : f
+          idx === fileIndex ? (latest ? applyEvent(uploaded, latest) : uploaded) : f
         ));
 
         queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
@@ -110,7 +188,13 @@ export default function Upload() {
 
         toast({
           title: "Upload successful",
-          description: `${file.name} has been uploaded and is being processed`,
+          description: result.batchId
+            ? `${result.documents.length} documents from ${file.name} are being processed`
+            : result.duplicateOf && user?.duplicatePolicy === "new"
+              ? `${file.name} was uploaded before; processing it as a new version of the existing document`
+              : result.duplicateOf
+                ? `${file.name} was uploaded before; linked to the existing document`
+                : `${file.name} has been uploaded and is being processed`,
         });
       } catch (error) {
         setFiles(prev => prev.map((f, idx) => 
@@ -118,6 +202,7 @@ export default function Upload() {
             ...f, 
             status: "error",
             error: error instanceof Error ? error.message : "Upload failed",
+            duplicateOf: (error as { duplicateOf?: UploadingFile["duplicateOf"] }).duplicateOf,
           } : f
         ));
       }
@@ -126,9 +211,7 @@ export default function Upload() {
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      "application/pdf": [".pdf"],
-    },
+    accept: { ...SUPPORTED_UPLOAD_TYPES, ...ARCHIVE_UPLOAD_TYPES },
     multiple: true,
   });
 
@@ -147,7 +230,7 @@ export default function Upload() {
       <div>
         <h1 className="text-3xl font-semibold" data-testid="text-upload-title">Upload Documents</h1>
         <p className="text-muted-foreground mt-1">
-          Upload PDF files to extract text, analyze content, and enable AI-powered Q&A
+          Upload documents to extract text, analyze content, and enable AI-powered Q&A
         </p>
       </div>
 
@@ -178,7 +261,7 @@ export default function Upload() {
                 )}
               </div>
               <h3 className="text-lg font-medium mb-2">
-                {isDragActive ? "Drop your files here" : "Drag & drop PDF files"}
+                {isDragActive ? "Drop your files here" : "Drag & drop documents"}
               </h3>
               <p className="text-sm text-muted-foreground mb-4">
                 or click to browse from your computer
@@ -187,10 +270,29 @@ export default function Upload() {
                 Select Files
               </Button>
               <p className="text-xs text-muted-foreground mt-4">
-                Maximum file size: 50MB. Supported format: PDF
+                Maximum file size: 50MB. Supported formats: {SUPPORTED_FORMATS_LABEL}, or a ZIP archive of them
               </p>
             </div>
           </div>
+          <div className="flex items-center justify-between gap-4 mt-6">
+            <Label htmlFor="duplicate-policy" className="text-sm text-muted-foreground">
+              When a file was uploaded before
+            </Label>
+            <Select
+              value={user?.duplicatePolicy || "link"}
+              onValueChange={(value) => policyMutation.mutate(value as DuplicatePolicy)}
+              disabled={!user || policyMutation.isPending}
+            >
+              <SelectTrigger id="duplicate-policy" className="w-56" data-testid="select-duplicate-policy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="link">Link to the existing document</SelectItem>
+                <SelectItem value="reject">Reject the upload</SelectItem>
+                <SelectItem value="new">Process it again as a new version</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </CardContent>
       </Card>
 
@@ -224,17 +326,36 @@ export default function Upload() {
                       </div>
                     )}
                     {uploadFile.status === "processing" && (
-                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                        <Loader2 className="w-3 h-3 animate-spin" />
-                        Processing document...
+                      <div className="space-y-1">
+                        <Progress value={uploadFile.processingProgress || 0} className="h-1.5" />
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                          Processing document... {uploadFile.processingProgress || 0}%
+                        </div>
                       </div>
                     )}
                     {uploadFile.status === "completed" && (
                       <div className="flex items-center gap-2 text-xs text-chart-2">
                         <CheckCircle2 className="w-3 h-3" />
-                        Uploaded successfully
+                        {uploadFile.batchId ? "Uploaded successfully" : "Processed successfully"}
                       </div>
                     )}
+                    {uploadFile.duplicateOf && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                        <Copy className="w-3 h-3" />
+                        <span>
+                          Duplicate of{" "}
+                          <Link href={`/documents/${uploadFile.duplicateOf.id}`}>
+                            <span className="text-primary hover:underline cursor-pointer">
+                              {uploadFile.duplicateOf.originalName}
+                            </span>
+                          </Link>
+                        </span>
+                      </div>
+                    )}
+                    {uploadFile.status === "completed" && uploadFile.batchId && (
+                      <BatchProgress batchId={uploadFile.batchId} />
+                    )}
                     {uploadFile.status === "error" && (
                       <div className="flex items-center gap-2 text-xs text-destructive">
                         <AlertCircle className="w-3 h-3" />
@@ -243,7 +364,7 @@ export default function Upload() {
                     )}
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
-                    {uploadFile.status === "completed" && uploadFile.documentId && (
+                    {uploadFile.status !== "uploading" && uploadFile.documentId && (
                       <Button 
                         size="sm" 
                         variant="outline"
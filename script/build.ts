@@ -12,10 +12,12 @@ const allowlist = [
   "date-fns",
   "drizzle-orm",
   "drizzle-zod",
+  "entities",
   "express",
   "express-rate-limit",
   "express-session",
   "jsonwebtoken",
+  "marked",
   "memorystore",
   "multer",
   "nanoid",
@@ -0,0 +1,50 @@
+import { GridFSBucket, type Db } from "mongodb";
+import type { Readable } from "stream";
+import type { BlobStore, ByteRange } from "./types";
+
+// Keeps uploads in the application's own MongoDB database, so no separate
+// file storage has to be run or backed up.
+export class GridFsBlobStore implements BlobStore {
+  private readonly bucket: GridFSBucket;
+
+  constructor(db: Db, bucketName: string) {
+    this.bucket = new GridFSBucket(db, { bucketName });
+  }
+
+  put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.bucket
+        .openUploadStream(key, { metadata: { contentType } })
+        .on("finish", () => resolve())
+        .on("error", reject)
+        .end(data);
+    });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.bucket.openDownloadStreamByName(key)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.size(key)) !== null;
+  }
+
+  async size(key: string): Promise<number | null> {
+    const files = await this.bucket.find({ filename: key }).sort({ uploadDate: -1 }).limit(1).toArray();
+    return files.length > 0 ? files[0].length : null;
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    // GridFS ranges are end-exclusive
+    return this.bucket.openDownloadStreamByName(key, range && { start: range.start, end: range.end + 1 });
+  }
+
+  async delete(key: string): Promise<void> {
+    const files = await this.bucket.find({ filename: key }).toArray();
+    await Promise.all(files.map((file) => this.bucket.delete(file._id)));
+  }
+}
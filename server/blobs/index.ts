@@ -0,0 +1,48 @@
+import path from "path";
+import { db } from "../db";
+import { LocalBlobStore } from "./local";
+import { S3BlobStore } from "./s3";
+import { GridFsBlobStore } from "./gridfs";
+import type { BlobStore } from "./types";
+
+export type { BlobStore, ByteRange } from "./types";
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when BLOB_STORE is "${process.env.BLOB_STORE}"`);
+  }
+  return value;
+}
+
+// BLOB_STORE picks the backend: "local" (the default), "s3" or "gridfs"
+function createBlobStore(): BlobStore {
+  const backend = process.env.BLOB_STORE || "local";
+  switch (backend) {
+    case "local":
+      return new LocalBlobStore(process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads"));
+    case "s3":
+      return new S3BlobStore(
+        requireEnv("S3_BUCKET"),
+        {
+          region: process.env.S3_REGION || "us-east-1",
+          endpoint: process.env.S3_ENDPOINT,
+          forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+          // Without explicit keys the SDK falls back to its default credential chain
+          credentials: process.env.S3_ACCESS_KEY_ID
+            ? {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: requireEnv("S3_SECRET_ACCESS_KEY"),
+              }
+            : undefined,
+        },
+        process.env.S3_PREFIX || ""
+      );
+    case "gridfs":
+      return new GridFsBlobStore(db, process.env.GRIDFS_BUCKET || "uploads");
+    default:
+      throw new Error(`Unknown BLOB_STORE "${backend}"; expected local, s3 or gridfs`);
+  }
+}
+
+export const blobStore = createBlobStore();
@@ -0,0 +1,47 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import type { BlobStore, ByteRange } from "./types";
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  // Keys never contain directories, so nothing can be read or written outside the upload directory
+  private pathFor(key: string): string {
+    if (!key || path.basename(key) !== key) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.directory, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await fs.promises.writeFile(this.pathFor(key), data);
+  }
+
+  get(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.pathFor(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.pathFor(key));
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      return (await fs.promises.stat(this.pathFor(key))).size;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.pathFor(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+  type S3ClientConfig,
+} from "@aws-sdk/client-s3";
+import type { Readable } from "stream";
+import type { BlobStore, ByteRange } from "./types";
+
+// Works with AWS S3 and S3-compatible servers such as MinIO, which need an
+// explicit endpoint and path-style bucket addressing.
+export class S3BlobStore implements BlobStore {
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    config: S3ClientConfig,
+    private readonly prefix = ""
+  ) {
+    this.client = new S3Client(config);
+  }
+
+  private keyFor(key: string): string {
+    return this.prefix + key;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.keyFor(key),
+        Body: data,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const result = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.keyFor(key) })
+    );
+    return Buffer.from(await result.Body!.transformToByteArray());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.size(key)) !== null;
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      const head = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: this.keyFor(key) })
+      );
+      return head.ContentLength ?? 0;
+    } catch (error) {
+      if (error instanceof NotFound) return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const result = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.keyFor(key),
+        Range: range && `bytes=${range.start}-${range.end}`,
+      })
+    );
+    // In Node the body is an http.IncomingMessage
+    return result.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.keyFor(key) }));
+  }
+}
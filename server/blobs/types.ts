@@ -0,0 +1,21 @@
+import type { Readable } from "stream";
+
+// Where original uploads live. Keys are the `filename` of a Document: flat,
+// unique names without directories, so every backend can store them as-is.
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  // Rejects when there is no blob under the key; check exists() first where that is expected
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  // Size in bytes, or null when there is no blob under the key
+  size(key: string): Promise<number | null>;
+  // Streams the blob, or only the inclusive byte range [start, end] of it
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  // Deleting a missing blob is not an error
+  delete(key: string): Promise<void>;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
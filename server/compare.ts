@@ -0,0 +1,303 @@
+import { diffArrays, diffWordsWithSpace } from "diff";
+import { storage } from "./storage";
+import { ENTITY_LABELS, type EntityKey } from "@shared/entities";
+import type {
+  ComparisonSide,
+  Document,
+  DocumentAnalysis,
+  DocumentComparison,
+  ExtractedTable,
+  ParagraphDiff,
+  SetDiff,
+  TableDiff,
+  TextSegment,
+  ValueChange,
+  ValueDiff,
+} from "@shared/mongo-schema";
+
+export interface ComparisonInput {
+  side: ComparisonSide;
+  status: string;
+  text: string;
+  analysis?: DocumentAnalysis;
+  tables: ExtractedTable[];
+}
+
+const ENTITY_KEYS = Object.keys(ENTITY_LABELS) as EntityKey[];
+
+// Paragraphs sharing fewer of their words than this are shown as one deleted
+// and one inserted paragraph instead of an edit of each other
+const MIN_PARAGRAPH_SIMILARITY = 0.4;
+
+// Collects the text, analysis and tables of one version of a document.
+// Returns null when the document has no such version.
+export async function loadComparisonInput(doc: Document, version: number): Promise<ComparisonInput | null> {
+  const documentId = (doc as any)._id.toString();
+  // Documents that were only ever uploaded once have no version records
+  const record =
+    (await storage.getDocumentVersion(documentId, version)) ??
+    (version === (doc.currentVersion ?? 1) ? doc : null);
+  if (!record) return null;
+
+  const [pages, analysisExtraction, tableExtraction] = await Promise.all([
+    storage.getPages(documentId, version),
+    storage.getExtraction(documentId, "analysis", version),
+    storage.getExtraction(documentId, "tables", version),
+  ]);
+  const analysis = analysisExtraction?.data as DocumentAnalysis | undefined;
+
+  return {
+    side: {
+      documentId,
+      version,
+      originalName: record.originalName,
+      uploadDate: record.uploadDate,
+    },
+    status: record.status,
+    text: pages.map((p) => p.extractedText || "").join("\n\n"),
+    analysis,
+    tables: (tableExtraction?.data as ExtractedTable[] | undefined) || analysis?.tables || [],
+  };
+}
+
+export function compareDocuments(left: ComparisonInput, right: ComparisonInput): DocumentComparison {
+  const paragraphs = alignParagraphs(splitParagraphs(left.text), splitParagraphs(right.text));
+  const leftEntities = left.analysis?.entities;
+  const rightEntities = right.analysis?.entities;
+
+  const entities = Object.fromEntries(
+    ENTITY_KEYS.map((key) => [key, diffSets(leftEntities?.[key] || [], rightEntities?.[key] || [])])
+  ) as DocumentComparison["entities"];
+
+  return {
+    left: left.side,
+    right: right.side,
+    paragraphs,
+    parties: diffSets(
+      [...(leftEntities?.persons || []), ...(leftEntities?.organizations || [])],
+      [...(rightEntities?.persons || []), ...(rightEntities?.organizations || [])]
+    ),
+    amounts: diffValues(entities.money, paragraphs),
+    dates: diffValues(entities.dates, paragraphs),
+    entities,
+    keywords: diffSets(left.analysis?.keywords || [], right.analysis?.keywords || []),
+    tables: diffTables(left.tables, right.tables),
+    statistics: {
+      unchanged: paragraphs.filter((p) => p.type === "equal").length,
+      changed: paragraphs.filter((p) => p.type === "change").length,
+      inserted: paragraphs.filter((p) => p.type === "insert").length,
+      deleted: paragraphs.filter((p) => p.type === "delete").length,
+    },
+  };
+}
+
+// Line breaks inside a paragraph are layout, not content, so they are folded
+// into spaces before comparing
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+// Sentences keep their trailing whitespace so that joining them gives back the paragraph
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?]+(?:[.!?]+\s*|$)/g) || [text];
+}
+
+type Run = { equal: string[] } | { removed: string[]; added: string[] };
+
+// Groups a diff into runs of equal items and runs of removed/added items,
+// so that the removed and added items of one run can be paired up
+function diffRuns(left: string[], right: string[]): Run[] {
+  const runs: Run[] = [];
+  const changes = diffArrays(left, right, { comparator: (a, b) => a.trim() === b.trim() });
+
+  for (const change of changes) {
+    const last = runs[runs.length - 1];
+    if (!change.added && !change.removed) {
+      runs.push({ equal: change.value });
+    } else {
+      const run = last && "removed" in last ? last : { removed: [], added: [] };
+      if (run !== last) runs.push(run);
+      (change.added ? run.added : run.removed).push(...change.value);
+    }
+  }
+
+  return runs;
+}
+
+function wordSimilarity(a: string, b: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(Boolean));
+  const left = words(a);
+  const right = words(b);
+  const shared = Array.from(left).filter((word) => right.has(word)).length;
+  return shared / Math.max(left.size, right.size, 1);
+}
+
+function alignParagraphs(left: string[], right: string[]): ParagraphDiff[] {
+  const result: ParagraphDiff[] = [];
+
+  for (const run of diffRuns(left, right)) {
+    if ("equal" in run) {
+      run.equal.forEach((text) =>
+        result.push({ type: "equal", left: text, right: text, segments: [{ type: "equal", text }] })
+      );
+      continue;
+    }
+
+    for (let i = 0; i < Math.max(run.removed.length, run.added.length); i++) {
+      const removed = run.removed[i];
+      const added = run.added[i];
+      if (removed !== undefined && added !== undefined && wordSimilarity(removed, added) >= MIN_PARAGRAPH_SIMILARITY) {
+        result.push({ type: "change", left: removed, right: added, segments: diffParagraph(removed, added) });
+        continue;
+      }
+      if (removed !== undefined) {
+        result.push({ type: "delete", left: removed, segments: [{ type: "delete", text: removed }] });
+      }
+      if (added !== undefined) {
+        result.push({ type: "insert", right: added, segments: [{ type: "insert", text: added }] });
+      }
+    }
+  }
+
+  return result;
+}
+
+// Aligns the sentences of two versions of a paragraph, then diffs changed
+// sentences word by word
+function diffParagraph(left: string, right: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  const push = (type: TextSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else if (text) segments.push({ type, text });
+  };
+
+  for (const run of diffRuns(splitSentences(left), splitSentences(right))) {
+    if ("equal" in run) {
+      run.equal.forEach((sentence) => push("equal", sentence));
+      continue;
+    }
+
+    for (let i = 0; i < Math.max(run.removed.length, run.added.length); i++) {
+      const removed = run.removed[i];
+      const added = run.added[i];
+      if (removed !== undefined && added !== undefined) {
+        for (const change of diffWordsWithSpace(removed, added)) {
+          push(change.added ? "insert" : change.removed ? "delete" : "equal", change.value);
+        }
+      } else if (removed !== undefined) {
+        push("delete", removed);
+      } else if (added !== undefined) {
+        push("insert", added);
+      }
+    }
+  }
+
+  return segments;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+function uniqueValues(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = normalize(value);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function diffSets(left: string[], right: string[]): SetDiff {
+  const leftKeys = new Set(left.map(normalize));
+  const rightKeys = new Set(right.map(normalize));
+  return {
+    added: uniqueValues(right.filter((value) => !leftKeys.has(normalize(value)))),
+    removed: uniqueValues(left.filter((value) => !rightKeys.has(normalize(value)))),
+  };
+}
+
+// A value that disappears from a changed paragraph while another one of the
+// same kind appears in it (a new amount in the payment clause) is reported as
+// a change rather than as one removal and one addition
+function diffValues(overall: SetDiff, paragraphs: ParagraphDiff[]): ValueDiff {
+  const changed: ValueChange[] = [];
+  const paired = new Set<string>();
+  const contains = (text: string, value: string) => text.toLowerCase().includes(normalize(value));
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.type !== "change") continue;
+    const left = paragraph.left!;
+    const right = paragraph.right!;
+    const removed = overall.removed.filter((value) =>
+      !paired.has(normalize(value)) && contains(left, value) && !contains(right, value)
+    );
+    const added = overall.added.filter((value) =>
+      !paired.has(normalize(value)) && contains(right, value) && !contains(left, value)
+    );
+    for (let i = 0; i < Math.min(added.length, removed.length); i++) {
+      changed.push({ from: removed[i], to: added[i], context: right });
+      paired.add(normalize(removed[i]));
+      paired.add(normalize(added[i]));
+    }
+  }
+
+  return {
+    added: overall.added.filter((value) => !paired.has(normalize(value))),
+    removed: overall.removed.filter((value) => !paired.has(normalize(value))),
+    changed,
+  };
+}
+
+// Tables are matched by name (spreadsheet sheets) and otherwise by position
+function diffTables(left: ExtractedTable[], right: ExtractedTable[]): TableDiff[] {
+  const key = (table: ExtractedTable, index: number) => table.name ?? `#${index}`;
+  const rowKey = (row: string[]) => row.map((cell) => String(cell ?? "").trim()).join("\u0001");
+  const rightByKey = new Map(right.map((table, index) => [key(table, index), table]));
+  const leftKeys = new Set(left.map(key));
+  const result: TableDiff[] = [];
+
+  left.forEach((table, index) => {
+    const other = rightByKey.get(key(table, index));
+    if (!other) {
+      result.push({
+        name: table.name,
+        status: "removed",
+        headers: { added: [], removed: table.headers },
+        addedRows: [],
+        removedRows: table.rows,
+      });
+      return;
+    }
+
+    const leftRows = new Set(table.rows.map(rowKey));
+    const rightRows = new Set(other.rows.map(rowKey));
+    const headers = diffSets(table.headers, other.headers);
+    const addedRows = other.rows.filter((row) => !leftRows.has(rowKey(row)));
+    const removedRows = table.rows.filter((row) => !rightRows.has(rowKey(row)));
+    const changed = headers.added.length + headers.removed.length + addedRows.length + removedRows.length > 0;
+    result.push({
+      name: table.name,
+      status: changed ? "changed" : "unchanged",
+      headers,
+      addedRows,
+      removedRows,
+    });
+  });
+
+  right.forEach((table, index) => {
+    if (leftKeys.has(key(table, index))) return;
+    result.push({
+      name: table.name,
+      status: "added",
+      headers: { added: table.headers, removed: [] },
+      addedRows: table.rows,
+      removedRows: [],
+    });
+  });
+
+  return result;
+}
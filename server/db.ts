@@ -17,7 +17,7 @@ export async function connectToDatabase() {
   try {
     await clientPromise;
     console.log(`Connected successfully to MongoDB Atlas - Database: ${dbName}`);
-    console.log(`Collections: users, documents, pages, extractions, chatMessages`);
+    console.log(`Collections: users, documents, pages, extractions, chatMessages, jobs`);
   } catch (e) {
     console.error("Could not connect to MongoDB", e);
     process.exit(1);
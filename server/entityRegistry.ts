@@ -0,0 +1,231 @@
+import { storage } from "./storage";
+import type {
+  Document,
+  ExtractedEntity,
+  RegistryEntity,
+  RegistryEntityDetail,
+  RegistryEntityDocument,
+  RegistryEntitySummary,
+  RegistryEntityType,
+  RegistryMention,
+} from "@shared/mongo-schema";
+
+export const REGISTRY_TYPES: RegistryEntityType[] = ["person", "organization", "location"];
+
+const HONORIFICS = new Set(["mr", "mrs", "ms", "miss", "dr", "prof", "sir", "dame"]);
+const COMPANY_SUFFIXES = new Set([
+  "inc", "incorporated", "corp", "corporation", "co", "company", "ltd", "limited",
+  "llc", "llp", "plc", "gmbh", "ag", "sa", "na", "nv", "bv", "srl", "pty",
+]);
+// Left out of acronyms: "Bank of New York" -> "BNY"
+const MINOR_WORDS = new Set(["of", "the", "and", "&", "for", "de", "du", "des", "la", "le", "von", "van"]);
+
+function isRegistryType(type: string): type is RegistryEntityType {
+  return (REGISTRY_TYPES as string[]).includes(type);
+}
+
+// Lowercase words without accents, punctuation or a possessive "'s". Dots
+// are dropped so that "I.B.M." reads as "ibm".
+function words(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]s\b/g, "")
+    .replace(/\./g, "")
+    .replace(/[^a-z0-9&]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+}
+
+// The spelling variants of one name share a key: "Mr. John Smith" and "John
+// Smith", "IBM Corp." and "IBM"
+export function canonicalKey(type: RegistryEntityType, text: string): string {
+  const parts = words(text);
+  if (type === "person") {
+    while (parts.length > 1 && HONORIFICS.has(parts[0])) parts.shift();
+  } else {
+    if (parts.length > 1 && parts[0] === "the") parts.shift();
+    while (parts.length > 1 && COMPANY_SUFFIXES.has(parts[parts.length - 1])) parts.pop();
+  }
+  return parts.join(" ");
+}
+
+// "I.B.M." and "IBM", but not "Paris". Two letters are too ambiguous to link
+// names by: "BA" could be any of a dozen companies.
+export function isAcronym(text: string): boolean {
+  return /^[A-Z][A-Z0-9&]{2,7}$/.test(text.replace(/\./g, ""));
+}
+
+// "international business machines" -> "ibm". People are not known by their initials.
+export function acronymOf(type: RegistryEntityType, key: string): string | null {
+  if (type === "person") return null;
+  const significant = key.split(" ").filter((word) => !MINOR_WORDS.has(word));
+  if (significant.length < 3) return null;
+  return significant.map((word) => word[0]).join("");
+}
+
+// The spelling used in the most documents, the longest on a tie
+function preferredName(mentions: RegistryMention[]): string {
+  const documents: Record<string, Set<string>> = {};
+  for (const mention of mentions) {
+    if (!documents[mention.text]) documents[mention.text] = new Set();
+    documents[mention.text].add(mention.documentId);
+  }
+  return Object.keys(documents).sort(
+    (a, b) => documents[b].size - documents[a].size || b.length - a.length || a.localeCompare(b)
+  )[0];
+}
+
+function union(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+// Adds one mention to the registry, merging the entries its name joins into
+// the oldest of them. Every write is a single atomic update, so jobs for two
+// documents can run at once. False when an entry changed between the lookup
+// and the write, in which case it is tried again.
+async function addMention(
+  userId: string,
+  type: RegistryEntityType,
+  text: string,
+  mention: RegistryMention
+): Promise<boolean> {
+  const key = canonicalKey(type, text);
+  const acronym = acronymOf(type, key);
+  const keys = acronym ? [key, acronym] : [key];
+  const acronyms = acronym ? [acronym] : [];
+
+  const [target, ...merged] = await storage.findRegistryEntities(userId, type, {
+    keys,
+    acronyms: isAcronym(text) ? [key] : [],
+  });
+  if (!target) {
+    return storage.upsertRegistryEntity(userId, type, { canonicalKey: key, name: text, keys: [key], acronyms }, mention);
+  }
+
+  const targetId = String(target._id);
+  if (!(await storage.addToRegistryEntity(targetId, { keys: [key], acronyms, mentions: [mention] }))) return false;
+  for (const other of merged) {
+    const taken = await storage.takeRegistryEntity(String(other._id));
+    if (taken) await absorb(userId, type, targetId, union([key, ...target.keys], taken.keys), taken);
+  }
+  return true;
+}
+
+// Moves a taken entry into the target. Should the target itself have been
+// merged away meanwhile, the entry goes to whichever one now holds `keys`, the
+// names of both, and if there is none it is put back as it was.
+async function absorb(
+  userId: string,
+  type: RegistryEntityType,
+  targetId: string,
+  keys: string[],
+  taken: RegistryEntity
+): Promise<void> {
+  let id = targetId;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    if (await storage.addToRegistryEntity(id, taken)) return;
+    const [current] = await storage.findRegistryEntities(userId, type, { keys, acronyms: [] });
+    if (!current) break;
+    id = String(current._id);
+  }
+  await storage.restoreRegistryEntity(taken);
+}
+
+// Adds the people, organizations and places of one version of a document to
+// the owner's registry. A name can join two existing entries, such as
+// "International Business Machines" and "IBM" by way of "IBM Corp.", in which
+// case they are merged into the older one. Reprocessing the same version
+// replaces its mentions.
+export async function updateEntityRegistry(
+  userId: string,
+  documentId: string,
+  version: number,
+  entities: ExtractedEntity[]
+): Promise<void> {
+  await storage.removeRegistryMentions(documentId, version);
+
+  for (const entity of entities) {
+    if (!isRegistryType(entity.type) || !canonicalKey(entity.type, entity.text)) continue;
+    const occurrences = entity.occurrences || [];
+    const mention: RegistryMention = {
+      documentId,
+      version,
+      text: entity.text,
+      pageNumbers: Array.from(new Set(occurrences.map((o) => o.pageNumber))).sort((a, b) => a - b),
+      count: Math.max(occurrences.length, 1),
+    };
+    for (let attempt = 0; attempt < 3; attempt++) {
+      if (await addMention(userId, entity.type, entity.text, mention)) break;
+    }
+  }
+}
+
+// Mentions in the current version of each document, ignoring documents the
+// map does not contain
+function currentMentions(entity: RegistryEntity, documents: Record<string, Document>): RegistryMention[] {
+  return entity.mentions.filter((mention) => {
+    const doc = documents[mention.documentId];
+    return doc && (doc.currentVersion ?? 1) === mention.version;
+  });
+}
+
+export function documentsById(documents: Document[]): Record<string, Document> {
+  const byId: Record<string, Document> = {};
+  for (const doc of documents) byId[String((doc as any)._id)] = doc;
+  return byId;
+}
+
+export function summarizeRegistryEntity(
+  entity: RegistryEntity,
+  documents: Record<string, Document>
+): RegistryEntitySummary | null {
+  const mentions = currentMentions(entity, documents);
+  if (mentions.length === 0) return null;
+
+  const name = preferredName(mentions);
+  return {
+    _id: String(entity._id),
+    type: entity.type,
+    name,
+    aliases: [name, ...union([], mentions.map((m) => m.text)).filter((text) => text !== name).sort()],
+    documentCount: new Set(mentions.map((m) => m.documentId)).size,
+    mentionCount: mentions.reduce((sum, m) => sum + m.count, 0),
+  };
+}
+
+// The documents mentioning an entity, those with the most mentions first
+export function describeRegistryEntity(
+  entity: RegistryEntity,
+  documents: Record<string, Document>
+): RegistryEntityDetail | null {
+  const summary = summarizeRegistryEntity(entity, documents);
+  if (!summary) return null;
+
+  const byDocument: Record<string, RegistryEntityDocument> = {};
+  for (const mention of currentMentions(entity, documents)) {
+    if (!byDocument[mention.documentId]) {
+      const doc = documents[mention.documentId];
+      byDocument[mention.documentId] = {
+        documentId: mention.documentId,
+        originalName: doc.originalName,
+        format: doc.format,
+        uploadDate: doc.uploadDate,
+        variants: [],
+        pageNumbers: [],
+        count: 0,
+      };
+    }
+    const entry = byDocument[mention.documentId];
+    entry.variants = union(entry.variants, [mention.text]);
+    entry.pageNumbers = Array.from(new Set([...entry.pageNumbers, ...mention.pageNumbers])).sort((a, b) => a - b);
+    entry.count += mention.count;
+  }
+
+  return {
+    ...summary,
+    documents: Object.values(byDocument).sort((a, b) => b.count - a.count),
+  };
+}
@@ -0,0 +1,112 @@
+import type { FailureReason, ProcessingFailure } from "@shared/mongo-schema";
+
+// What users are told for each kind of failure, and whether trying again can help
+const REASONS: Record<FailureReason, { message: string; retryable: boolean }> = {
+  encrypted: {
+    message: "The file is password protected. Enter its password to process it.",
+    retryable: false,
+  },
+  corrupt: {
+    message: "The file is damaged or is not a valid document of its type.",
+    retryable: false,
+  },
+  no_text: {
+    message: "No text was found in the file.",
+    retryable: false,
+  },
+  timeout: {
+    message: "Processing took too long and was stopped.",
+    retryable: true,
+  },
+  ai_provider: {
+    message: "The AI provider could not be reached or returned an error.",
+    retryable: true,
+  },
+  storage: {
+    message: "The file or its results could not be read from or saved to storage.",
+    retryable: true,
+  },
+  unknown: {
+    message: "Processing failed unexpectedly.",
+    retryable: true,
+  },
+};
+
+// A failure whose reason is known where it happens. The message is shown to
+// the user; the cause, if any, is kept as the technical detail.
+export class ProcessingError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    readonly reason: FailureReason,
+    message: string = REASONS[reason].message,
+    options: { retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "ProcessingError";
+    this.retryable = options.retryable ?? REASONS[reason].retryable;
+  }
+}
+
+// pdf.js names its errors; these mean the file itself is the problem
+const ENCRYPTED_ERROR_NAMES = new Set(["PasswordException"]);
+const CORRUPT_ERROR_NAMES = new Set(["InvalidPDFException", "FormatError", "MissingPDFException"]);
+
+// PasswordException code for a password that was given but is wrong
+const INCORRECT_PASSWORD = 2;
+
+// File system errors from the local blob store
+const STORAGE_ERROR_CODES = new Set(["ENOENT", "EACCES", "EPERM", "ENOSPC", "EIO", "EMFILE"]);
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function reasonOf(error: unknown): FailureReason {
+  const { name, code } = (error ?? {}) as { name?: string; code?: string };
+  if (name && ENCRYPTED_ERROR_NAMES.has(name)) return "encrypted";
+  if (name && CORRUPT_ERROR_NAMES.has(name)) return "corrupt";
+  if (name === "TimeoutError") return "timeout";
+  // MongoDB and GridFS errors are all named Mongo*, S3 errors carry response metadata
+  if (name?.startsWith("Mongo") || (code && STORAGE_ERROR_CODES.has(code)) || (error as any)?.$metadata) {
+    return "storage";
+  }
+  return "unknown";
+}
+
+// MongoDB rejects a document over 16 MB on every attempt
+function isTooLarge(error: unknown): boolean {
+  const { codeName, message } = (error ?? {}) as { codeName?: string; message?: string };
+  return codeName === "BSONObjectTooLarge" || !!message?.includes("larger than the maximum size");
+}
+
+export function classifyError(error: unknown): ProcessingFailure {
+  if (error instanceof ProcessingError) {
+    return {
+      reason: error.reason,
+      message: error.message,
+      retryable: error.retryable,
+      detail: error.cause !== undefined ? errorMessage(error.cause) : undefined,
+    };
+  }
+  const reason = reasonOf(error);
+  const failure = { ...REASONS[reason], reason, detail: errorMessage(error) };
+  return isTooLarge(error) ? { ...failure, retryable: false } : failure;
+}
+
+// Extractors throw whatever their parser throws. Anything that is not a
+// cancellation, a timeout or a storage problem means the file could not be parsed.
+export function extractionError(error: unknown): unknown {
+  if (error instanceof ProcessingError) return error;
+  const name = (error as { name?: string } | null)?.name;
+  if (name === "AbortError") return error;
+  const reason = reasonOf(error);
+  if (reason === "timeout" || reason === "storage") return error;
+  if (reason === "encrypted") {
+    const incorrect = (error as { code?: number }).code === INCORRECT_PASSWORD;
+    return new ProcessingError("encrypted", incorrect ? "The password is incorrect. Try again." : undefined, {
+      cause: error,
+    });
+  }
+  return new ProcessingError("corrupt", undefined, { cause: error });
+}
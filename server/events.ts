@@ -0,0 +1,65 @@
+import { EventEmitter } from "events";
+import type { Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import { getSessionUser } from "./replitAuth";
+import type { DocumentEvent } from "@shared/mongo-schema";
+
+export const EVENTS_PATH = "/ws";
+
+// Connections that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Events only reach sockets connected to this process. A document processed
+// by another server's job queue is caught up on by the browser, which fetches
+// the state of documents in flight when their events stop coming.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishDocumentEvent(userId: string, event: Omit<DocumentEvent, "at">): void {
+  emitter.emit("document", userId, { ...event, at: new Date().toISOString() });
+}
+
+// Accepts WebSocket connections on /ws from signed-in users and sends them
+// the events of their own documents. Other upgrade requests (Vite's HMR
+// socket in development) are left alone.
+export function setupEventSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url || "/", "http://localhost").pathname !== EVENTS_PATH) return;
+
+    try {
+      const user = await getSessionUser(req);
+      if (!user) {
+        socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const userId: string = user.claims.sub;
+        const listener = (owner: string, event: DocumentEvent) => {
+          if (owner === userId && ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify(event));
+          }
+        };
+        emitter.on("document", listener);
+        alive.set(ws, true);
+        ws.on("pong", () => alive.set(ws, true));
+        ws.on("close", () => emitter.off("document", listener));
+      });
+    } catch (error) {
+      console.error("Error accepting event socket:", error);
+      socket.destroy();
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) return ws.terminate();
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+}
@@ -0,0 +1,27 @@
+import mammoth from "mammoth";
+import { readZipEntries } from "../zip";
+import { blocksFromHtml, parseHtml } from "./html";
+import { contentFromBlocks } from "./structure";
+import { documentProperties } from "./xml";
+import type { Extractor } from "./types";
+
+const CORE_PROPERTIES = "docProps/core.xml";
+
+// Images are dropped rather than inlined as data URIs; only the text is analysed
+const skipImages = mammoth.images.imgElement(async () => ({ src: "" }));
+
+// mammoth maps Word's heading styles to <h1>-<h6> and keeps tables as <table>,
+// so the converted HTML goes through the same block reduction as HTML uploads.
+export const extractDocx: Extractor = async (data, { documentId }) => {
+  const result = await mammoth.convertToHtml({ buffer: data }, { convertImage: skipImages });
+  const warnings = result.messages.filter((m) => m.type === "warning").length;
+  if (warnings > 0) {
+    console.log(`[${documentId}] DOCX conversion reported ${warnings} warning(s).`);
+  }
+
+  const entries = await readZipEntries(data, [CORE_PROPERTIES]);
+  return contentFromBlocks(
+    blocksFromHtml(parseHtml(result.value)),
+    documentProperties(entries.get(CORE_PROPERTIES))
+  );
+};
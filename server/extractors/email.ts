@@ -0,0 +1,190 @@
+import { createRequire } from "module";
+import { simpleParser, type AddressObject, type ParsedMail } from "mailparser";
+import type { EmailAddress, EmailAttachment, EmailHeaders, EmailMetadata } from "@shared/mongo-schema";
+import { isSupportedUpload, SUPPORTED_UPLOAD_TYPES } from "@shared/file-types";
+import { blocksFromHtml, parseHtml } from "./html";
+import { contentFromBlocks } from "./structure";
+import type { ExtractedAttachment, ExtractedContent, ExtractedPage, Extractor } from "./types";
+
+const require = createRequire(import.meta.url);
+
+// msgreader is CommonJS with only a default export, which ESM import does not unwrap
+const { default: MsgReader }: typeof import("@kenjiuno/msgreader") = require("@kenjiuno/msgreader");
+
+const OLE_SIGNATURE = "\xd0\xcf\x11\xe0\xa1\xb1\x1a\xe1";
+
+interface ParsedMessage {
+  headers: EmailHeaders;
+  body: string;
+  attachments: ExtractedAttachment[];
+}
+
+function htmlToText(html: string): string {
+  return contentFromBlocks(blocksFromHtml(parseHtml(html))).pages.map((p) => p.text).join("\n\n");
+}
+
+// Unnamed parts get a name with the extension of their type, so they can still be processed
+function attachmentName(filename: string | undefined, contentType: string, index: number): string {
+  return filename || `attachment-${index + 1}${SUPPORTED_UPLOAD_TYPES[contentType]?.[0] ?? ""}`;
+}
+
+function isoDate(value: Date | string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function addresses(field: AddressObject | AddressObject[] | undefined): EmailAddress[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects.flatMap((object) =>
+    object.value
+      .filter((a) => a.address)
+      .map((a) => ({ address: a.address!, ...(a.name ? { name: a.name } : {}) }))
+  );
+}
+
+function formatAddresses(list: EmailAddress[]): string {
+  return list.map((a) => (a.name ? `${a.name} <${a.address}>` : a.address)).join(", ");
+}
+
+// A short header block ahead of the body keeps senders and recipients in the
+// analysed text, so they show up in entity extraction and search.
+function messageText({ headers, body }: ParsedMessage): string {
+  const lines = [
+    headers.from.length > 0 && `From: ${formatAddresses(headers.from)}`,
+    headers.to.length > 0 && `To: ${formatAddresses(headers.to)}`,
+    headers.cc.length > 0 && `Cc: ${formatAddresses(headers.cc)}`,
+    headers.date && `Date: ${headers.date}`,
+    headers.subject && `Subject: ${headers.subject}`,
+  ].filter(Boolean);
+  return [lines.join("\n"), body.trim()].filter(Boolean).join("\n\n");
+}
+
+async function parseMime(data: Buffer): Promise<ParsedMessage> {
+  const mail: ParsedMail = await simpleParser(data);
+  const references = typeof mail.references === "string" ? [mail.references] : mail.references;
+  return {
+    headers: {
+      from: addresses(mail.from),
+      to: addresses(mail.to),
+      cc: addresses(mail.cc),
+      date: isoDate(mail.date),
+      subject: mail.subject,
+      messageId: mail.messageId,
+      inReplyTo: mail.inReplyTo,
+      references,
+    },
+    body: mail.text || (mail.html ? htmlToText(mail.html) : ""),
+    // Inline parts referenced from the HTML body (logos, signatures) are not attachments
+    attachments: mail.attachments
+      .filter((a) => !a.related)
+      .map((a, index) => ({
+        filename: attachmentName(a.filename, a.contentType, index),
+        contentType: a.contentType,
+        content: a.content,
+      })),
+  };
+}
+
+function transportHeader(headers: string | undefined, name: string): string | undefined {
+  const match = headers && new RegExp(`^${name}:\\s*(.+(?:\\r?\\n[ \\t].+)*)`, "im").exec(headers);
+  return match ? match[1].replace(/\s+/g, " ").trim() : undefined;
+}
+
+// Outlook .msg files are OLE2 compound files rather than MIME
+function parseMsg(data: Buffer): ParsedMessage {
+  const reader = new MsgReader(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+  const fields = reader.getFileData();
+  if (fields.error) {
+    throw new Error(`Could not read Outlook message: ${fields.error}`);
+  }
+
+  const recipients = (type: "to" | "cc") =>
+    (fields.recipients || [])
+      .filter((r) => (r.recipType || "to") === type && (r.email || r.name))
+      .map((r) => ({ address: r.email || r.name!, ...(r.name && r.name !== r.email ? { name: r.name } : {}) }));
+  const references = transportHeader(fields.headers, "References");
+
+  return {
+    headers: {
+      from: fields.senderEmail || fields.senderName
+        ? [{ address: fields.senderEmail || fields.senderName!, ...(fields.senderName ? { name: fields.senderName } : {}) }]
+        : [],
+      to: recipients("to"),
+      cc: recipients("cc"),
+      date: isoDate(fields.messageDeliveryTime || fields.clientSubmitTime),
+      subject: fields.subject,
+      messageId: transportHeader(fields.headers, "Message-ID") || fields.messageId,
+      inReplyTo: transportHeader(fields.headers, "In-Reply-To"),
+      references: references ? references.split(/\s+/) : undefined,
+    },
+    body: fields.body || (fields.bodyHtml ? htmlToText(fields.bodyHtml) : ""),
+    attachments: (fields.attachments || [])
+      .filter((a) => !a.attachmentHidden && !a.innerMsgContent)
+      .map((a, index) => {
+        const attachment = reader.getAttachment(a);
+        const contentType = a.attachMimeTag || "application/octet-stream";
+        return {
+          filename: attachmentName(attachment.fileName, contentType, index),
+          contentType,
+          content: Buffer.from(attachment.content),
+        };
+      }),
+  };
+}
+
+// mbox stores messages back to back, each introduced by a "From " line;
+// body lines that start with "From " are escaped as ">From ".
+function splitMbox(data: Buffer): Buffer[] {
+  return data
+    .toString("latin1")
+    .split(/^From .*\r?\n/m)
+    .filter((message) => message.trim().length > 0)
+    .map((message) => Buffer.from(message.replace(/^>(>*From )/gm, "$1"), "latin1"));
+}
+
+function isMbox(data: Buffer): boolean {
+  return data.subarray(0, 5).toString("latin1") === "From ";
+}
+
+// Every message becomes a page. Headers go into the document metadata and
+// attachments are handed back for the pipeline to process as child documents.
+export const extractEmail: Extractor = async (data) => {
+  let messages: ParsedMessage[];
+  if (data.subarray(0, OLE_SIGNATURE.length).toString("latin1") === OLE_SIGNATURE) {
+    messages = [parseMsg(data)];
+  } else if (isMbox(data)) {
+    messages = await Promise.all(splitMbox(data).map(parseMime));
+  } else {
+    messages = [await parseMime(data)];
+  }
+  if (messages.length === 0) {
+    throw new Error("No email messages found in file");
+  }
+
+  const pages: ExtractedPage[] = messages.map((message, index) => ({
+    pageNumber: index + 1,
+    text: messageText(message),
+    extractionMethod: "text",
+  }));
+  const attachments = messages.flatMap((message) => message.attachments);
+  const attachmentInfo: EmailAttachment[] = attachments.map((a) => ({
+    filename: a.filename,
+    contentType: a.contentType,
+    size: a.content.length,
+    supported: isSupportedUpload(a.filename, a.contentType),
+  }));
+
+  const email: EmailMetadata = {
+    ...messages[0].headers,
+    messages: messages.map((message) => message.headers),
+    attachments: attachmentInfo,
+  };
+  const content: ExtractedContent = {
+    pages,
+    headings: [],
+    metadata: { title: messages[0].headers.subject, email },
+    attachments: attachments.filter((_, index) => attachmentInfo[index].supported),
+  };
+  return content;
+};
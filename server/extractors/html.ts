@@ -0,0 +1,117 @@
+import { parse, NodeType, type HTMLElement, type Node } from "node-html-parser";
+import { decodeText } from "./text";
+import { collapseWhitespace, contentFromBlocks, type Block } from "./structure";
+import type { Extractor } from "./types";
+
+const SKIPPED_TAGS = new Set([
+  "head", "script", "style", "noscript", "template", "svg", "canvas", "iframe", "object",
+]);
+
+// Elements that start a new block of text; anything else is treated as inline
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "body", "caption", "dd", "details", "dialog",
+  "div", "dl", "dt", "fieldset", "figcaption", "figure", "footer", "form", "header", "hgroup",
+  "hr", "html", "legend", "li", "main", "menu", "nav", "ol", "p", "section", "summary", "ul",
+]);
+
+const HEADING_TAG = /^h([1-6])$/;
+
+function isElement(node: Node): node is HTMLElement {
+  return node.nodeType === NodeType.ELEMENT_NODE;
+}
+
+function tagOf(element: HTMLElement): string {
+  return (element.rawTagName || "").toLowerCase();
+}
+
+// Rows of a table, not descending into tables nested inside its cells
+function tableRows(table: HTMLElement): string[][] {
+  const rows: string[][] = [];
+  const visit = (element: HTMLElement) => {
+    for (const child of element.childNodes) {
+      if (!isElement(child)) continue;
+      const tag = tagOf(child);
+      if (tag === "thead" || tag === "tbody" || tag === "tfoot") {
+        visit(child);
+      } else if (tag === "tr") {
+        const cells: string[] = [];
+        for (const cell of child.childNodes) {
+          if (!isElement(cell) || (tagOf(cell) !== "td" && tagOf(cell) !== "th")) continue;
+          cells.push(collapseWhitespace(cell.text));
+          // Keep later cells under their own column when a cell spans several
+          const span = Math.min(parseInt(cell.getAttribute("colspan") || "1", 10) || 1, 50);
+          for (let i = 1; i < span; i++) cells.push("");
+        }
+        rows.push(cells);
+      }
+    }
+  };
+  visit(table);
+  return rows;
+}
+
+// Reduces an HTML tree to headings, paragraphs and tables. Inline content is
+// gathered until the next block element; <br> keeps its line break.
+export function blocksFromHtml(root: HTMLElement): Block[] {
+  const blocks: Block[] = [];
+  let inline = "";
+
+  const flush = () => {
+    const text = inline
+      .split("\n")
+      .map(collapseWhitespace)
+      .filter(Boolean)
+      .join("\n");
+    if (text) blocks.push({ type: "paragraph", text });
+    inline = "";
+  };
+
+  const visit = (node: Node) => {
+    if (!isElement(node)) {
+      if (node.nodeType === NodeType.TEXT_NODE) inline += node.text;
+      return;
+    }
+
+    const tag = tagOf(node);
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    const heading = HEADING_TAG.exec(tag);
+    if (heading) {
+      flush();
+      blocks.push({ type: "heading", level: Number(heading[1]), text: collapseWhitespace(node.text) });
+    } else if (tag === "table") {
+      flush();
+      blocks.push({ type: "table", rows: tableRows(node) });
+    } else if (tag === "pre") {
+      flush();
+      const text = node.text.replace(/\r\n?/g, "\n").replace(/^\n+|\s+$/g, "");
+      if (text) blocks.push({ type: "paragraph", text });
+    } else if (tag === "br") {
+      inline += "\n";
+    } else if (BLOCK_TAGS.has(tag) || tag === "") {
+      flush();
+      node.childNodes.forEach(visit);
+      flush();
+    } else {
+      node.childNodes.forEach(visit);
+    }
+  };
+
+  visit(root);
+  flush();
+  return blocks;
+}
+
+export function parseHtml(html: string): HTMLElement {
+  // node-html-parser keeps the doctype as a text node
+  return parse(html.replace(/<!doctype[^>]*>/i, ""), {
+    comment: false,
+    blockTextElements: { script: false, style: false, noscript: false, pre: true },
+  });
+}
+
+export const extractHtml: Extractor = async (data) => {
+  const root = parseHtml(decodeText(data));
+  const title = collapseWhitespace(root.querySelector("title")?.text || "");
+  return contentFromBlocks(blocksFromHtml(root), { title: title || undefined });
+};
@@ -0,0 +1,54 @@
+import sharp from "sharp";
+import { recognizeImage } from "../ocr";
+import type { ExtractedPage, Extractor } from "./types";
+
+// Phone photos can be very large; beyond this OCR gets slower without getting better
+const MAX_OCR_DIMENSION = 4000;
+
+// Decodes one frame (0-based) to PNG, upright according to its EXIF orientation
+export function renderImageFrame(data: Buffer, frame: number, maxDimension: number): Promise<Buffer> {
+  return sharp(data, { page: frame })
+    .rotate()
+    .resize(maxDimension, maxDimension, { fit: "inside", withoutEnlargement: true })
+    .png()
+    .toBuffer();
+}
+
+function prepareForOcr(data: Buffer, frame: number): Promise<Buffer> {
+  return sharp(data, { page: frame })
+    .rotate()
+    .resize(MAX_OCR_DIMENSION, MAX_OCR_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .greyscale()
+    .png()
+    .toBuffer();
+}
+
+// Images have no text of their own: every frame (each page of a multi-page
+// TIFF) becomes a page whose text is recognised by OCR, unless OCR is off.
+export const extractImage: Extractor = async (data, { documentId, ocr: mode, signal, onProgress }) => {
+  const { pages: frameCount = 1 } = await sharp(data).metadata();
+  const pages: ExtractedPage[] = [];
+
+  if (mode === "never") {
+    for (let frame = 0; frame < frameCount; frame++) {
+      pages.push({ pageNumber: frame + 1, text: "", extractionMethod: "text" });
+    }
+    return { pages, headings: [], metadata: {} };
+  }
+
+  console.log(`[${documentId}] Running OCR on ${frameCount} image frame(s)...`);
+  for (let frame = 0; frame < frameCount; frame++) {
+    signal.throwIfAborted();
+    const result = await recognizeImage(await prepareForOcr(data, frame));
+    pages.push({
+      pageNumber: frame + 1,
+      text: result.text,
+      extractionMethod: "ocr",
+      ocrConfidence: result.confidence,
+    });
+    await onProgress?.((frame + 1) / frameCount);
+  }
+  console.log(`[${documentId}] OCR completed.`);
+
+  return { pages, headings: [], metadata: {} };
+};
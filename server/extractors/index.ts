@@ -0,0 +1,100 @@
+import { fileExtension, type DocumentFormat } from "@shared/file-types";
+import { readZipEntries } from "../zip";
+import { extractPdf } from "./pdf";
+import { extractDocx } from "./docx";
+import { extractOdt } from "./odt";
+import { extractRtf } from "./rtf";
+import { extractHtml } from "./html";
+import { extractMarkdown } from "./markdown";
+import { extractText } from "./text";
+import { extractImage } from "./image";
+import { extractSpreadsheet } from "./spreadsheet";
+import { extractEmail } from "./email";
+import type { Extractor } from "./types";
+
+export type { ExtractedAttachment, ExtractedContent, ExtractedPage, ExtractOptions } from "./types";
+export { renderImageFrame } from "./image";
+
+const extractors: Record<DocumentFormat, Extractor> = {
+  pdf: extractPdf,
+  docx: extractDocx,
+  odt: extractOdt,
+  rtf: extractRtf,
+  html: extractHtml,
+  markdown: extractMarkdown,
+  text: extractText,
+  image: extractImage,
+  spreadsheet: extractSpreadsheet,
+  email: extractEmail,
+};
+
+export function getExtractor(format: DocumentFormat): Extractor {
+  return extractors[format];
+}
+
+// PNG, JPEG, and little- and big-endian TIFF
+const IMAGE_SIGNATURES = ["\x89PNG\r\n\x1a\n", "\xff\xd8\xff", "II*\x00", "MM\x00*"];
+
+const OLE_SIGNATURE = "\xd0\xcf\x11\xe0\xa1\xb1\x1a\xe1";
+
+const ODT_MIME_TYPE = "application/vnd.oasis.opendocument.text";
+const XLS_MIME_TYPE = "application/vnd.ms-excel";
+const MSG_MIME_TYPE = "application/vnd.ms-outlook";
+
+function startsWith(data: Buffer, signature: string): boolean {
+  return data.subarray(0, signature.length).toString("latin1") === signature;
+}
+
+// DOCX, XLSX and ODT are all ZIP containers; tell them apart by what they contain
+async function detectZipFormat(data: Buffer): Promise<DocumentFormat | null> {
+  const entries = await readZipEntries(
+    data,
+    ["mimetype", "word/document.xml", "xl/workbook.xml"],
+    1024 * 1024
+  ).catch(() => new Map<string, Buffer>());
+  if (entries.has("word/document.xml")) return "docx";
+  if (entries.has("xl/workbook.xml")) return "spreadsheet";
+  if (entries.get("mimetype")?.toString("latin1").trim() === ODT_MIME_TYPE) return "odt";
+  return null;
+}
+
+// Binary formats are recognised by their signature, whatever the file is called.
+// Text formats have none, so the extension and MIME type decide between them.
+export async function detectFormat(
+  data: Buffer,
+  fileName: string,
+  mimeType: string
+): Promise<DocumentFormat | null> {
+  if (startsWith(data, "%PDF-")) return "pdf";
+  if (startsWith(data, "PK\x03\x04")) return detectZipFormat(data);
+  if (startsWith(data, "{\\rtf")) return "rtf";
+  if (IMAGE_SIGNATURES.some((signature) => startsWith(data, signature))) return "image";
+
+  const extension = fileExtension(fileName);
+  // OLE2 compound files hold several legacy Office formats; XLS and Outlook MSG are supported
+  if (startsWith(data, OLE_SIGNATURE)) {
+    if (extension === ".xls" || mimeType === XLS_MIME_TYPE) return "spreadsheet";
+    if (extension === ".msg" || mimeType === MSG_MIME_TYPE) return "email";
+    return null;
+  }
+  if (
+    extension === ".eml" ||
+    extension === ".mbox" ||
+    mimeType === "message/rfc822" ||
+    mimeType === "application/mbox"
+  ) {
+    return "email";
+  }
+  // SheetJS also reads the CSV and HTML files that some exports save as .xls
+  if (extension === ".csv" || extension === ".xls" || mimeType === "text/csv") return "spreadsheet";
+  if (extension === ".html" || extension === ".htm" || mimeType === "text/html") return "html";
+  if (extension === ".md" || extension === ".markdown" || mimeType === "text/markdown") {
+    return "markdown";
+  }
+
+  const head = data.subarray(0, 512).toString("utf-8").trimStart().toLowerCase();
+  if (head.startsWith("<!doctype html") || head.startsWith("<html")) return "html";
+  if (extension === ".txt" || mimeType.startsWith("text/")) return "text";
+
+  return null;
+}
@@ -0,0 +1,88 @@
+import { Lexer, type Token, type Tokens } from "marked";
+import { decodeHTML } from "entities";
+import { decodeText } from "./text";
+import { blocksFromHtml, parseHtml } from "./html";
+import { collapseWhitespace, contentFromBlocks, type Block } from "./structure";
+import type { Extractor } from "./types";
+
+// Plain text of inline tokens, without Markdown markup or character references
+function inlineText(tokens: Token[] | undefined): string {
+  let text = "";
+  for (const token of tokens || []) {
+    switch (token.type) {
+      case "br":
+        text += "\n";
+        break;
+      // Inline HTML tokens are bare tags; the text between them has tokens of its own
+      case "html":
+        break;
+      case "image":
+        text += decodeHTML(token.text);
+        break;
+      default:
+        text += "tokens" in token && token.tokens
+          ? inlineText(token.tokens)
+          : decodeHTML((token as any).text || "");
+    }
+  }
+  return text;
+}
+
+function cellText(cell: Tokens.TableCell): string {
+  return collapseWhitespace(inlineText(cell.tokens));
+}
+
+function blocksFromTokens(tokens: Token[], blocks: Block[] = []): Block[] {
+  for (const token of tokens) {
+    switch (token.type) {
+      case "heading":
+        blocks.push({ type: "heading", level: token.depth, text: collapseWhitespace(inlineText(token.tokens)) });
+        break;
+      case "paragraph":
+      case "text": {
+        const text = inlineText(token.tokens || [token]).trim();
+        if (text) blocks.push({ type: "paragraph", text });
+        break;
+      }
+      case "code":
+        if (token.text.trim()) blocks.push({ type: "paragraph", text: token.text });
+        break;
+      case "table":
+        blocks.push({
+          type: "table",
+          rows: [token.header.map(cellText), ...token.rows.map((row: Tokens.TableCell[]) => row.map(cellText))],
+        });
+        break;
+      case "list":
+        for (const item of token.items as Tokens.ListItem[]) {
+          blocksFromTokens(item.tokens, blocks);
+        }
+        break;
+      case "blockquote":
+        blocksFromTokens(token.tokens || [], blocks);
+        break;
+      case "html":
+        blocks.push(...blocksFromHtml(parseHtml(token.text)));
+        break;
+    }
+  }
+  return blocks;
+}
+
+export const extractMarkdown: Extractor = async (data) => {
+  const source = decodeText(data).replace(/\r\n?/g, "\n");
+  // YAML front matter is metadata, not content
+  const frontMatter = /^---\n([\s\S]*?)\n---\n/.exec(source);
+  const body = frontMatter ? source.slice(frontMatter[0].length) : source;
+  const title = frontMatter && /^title:\s*["']?(.+?)["']?\s*$/m.exec(frontMatter[1]);
+
+  const content = contentFromBlocks(blocksFromTokens(Lexer.lex(body)), {
+    title: title ? title[1] : undefined,
+  });
+  // Without front matter, a single top-level heading is the title
+  if (!content.metadata.title) {
+    const topLevel = content.headings.filter((h) => h.level === 1);
+    if (topLevel.length === 1) content.metadata.title = topLevel[0].text;
+  }
+  return content;
+};
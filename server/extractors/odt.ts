@@ -0,0 +1,132 @@
+import { readZipEntries } from "../zip";
+import { collapseWhitespace, contentFromBlocks, type Block } from "./structure";
+import { documentProperties, parseOrderedXml, tagName, type OrderedXmlNode } from "./xml";
+import type { Extractor } from "./types";
+
+const CONTENT = "content.xml";
+const META = "meta.xml";
+
+// Inline elements whose content is not part of the running text
+const SKIPPED_INLINE = new Set(["text:note", "office:annotation", "draw:frame"]);
+
+const ROW_GROUPS = new Set(["table:table-header-rows", "table:table-rows", "table:table-row-group"]);
+
+// Cells repeated this many times are spreadsheet-style padding, not content
+const MAX_REPEATED_CELLS = 100;
+
+function children(node: OrderedXmlNode): OrderedXmlNode[] {
+  const value = node[tagName(node)];
+  return Array.isArray(value) ? value : [];
+}
+
+function attribute(node: OrderedXmlNode, name: string): string | undefined {
+  return node[":@"]?.[name];
+}
+
+function inlineText(nodes: OrderedXmlNode[]): string {
+  let text = "";
+  for (const node of nodes) {
+    const tag = tagName(node);
+    if (tag === "#text") {
+      text += node["#text"];
+    } else if (tag === "text:s") {
+      text += " ".repeat(parseInt(attribute(node, "text:c") || "1", 10) || 1);
+    } else if (tag === "text:tab") {
+      text += "\t";
+    } else if (tag === "text:line-break") {
+      text += "\n";
+    } else if (!SKIPPED_INLINE.has(tag)) {
+      text += inlineText(children(node));
+    }
+  }
+  return text;
+}
+
+function paragraphText(node: OrderedXmlNode): string {
+  return inlineText(children(node))
+    .split("\n")
+    .map(collapseWhitespace)
+    .filter(Boolean)
+    .join("\n");
+}
+
+function tableRows(table: OrderedXmlNode): string[][] {
+  const rows: string[][] = [];
+  const visit = (nodes: OrderedXmlNode[]) => {
+    for (const node of nodes) {
+      const tag = tagName(node);
+      if (tag === "table:table-row") {
+        const cells: string[] = [];
+        for (const cell of children(node)) {
+          const cellTag = tagName(cell);
+          if (cellTag !== "table:table-cell" && cellTag !== "table:covered-table-cell") continue;
+          const text = children(cell).map(paragraphText).filter(Boolean).join(" ");
+          const repeat = parseInt(attribute(cell, "table:number-columns-repeated") || "1", 10) || 1;
+          cells.push(...Array(Math.min(repeat, text ? MAX_REPEATED_CELLS : 1)).fill(text));
+        }
+        rows.push(cells);
+      } else if (ROW_GROUPS.has(tag)) {
+        visit(children(node));
+      }
+    }
+  };
+  visit(children(table));
+  return rows;
+}
+
+function blocksFromOdt(nodes: OrderedXmlNode[], blocks: Block[] = []): Block[] {
+  for (const node of nodes) {
+    const tag = tagName(node);
+    switch (tag) {
+      case "text:h":
+        blocks.push({
+          type: "heading",
+          level: parseInt(attribute(node, "text:outline-level") || "1", 10) || 1,
+          text: collapseWhitespace(paragraphText(node)),
+        });
+        break;
+      case "text:p": {
+        const text = paragraphText(node);
+        if (text) blocks.push({ type: "paragraph", text });
+        break;
+      }
+      case "table:table":
+        blocks.push({ type: "table", rows: tableRows(node) });
+        break;
+      case "text:soft-page-break":
+        blocks.push({ type: "pageBreak" });
+        break;
+      // A generated table of contents repeats the headings, so it is left out
+      case "text:table-of-content":
+        break;
+      default:
+        if (tag !== "#text") blocksFromOdt(children(node), blocks);
+    }
+  }
+  return blocks;
+}
+
+function findBody(nodes: OrderedXmlNode[]): OrderedXmlNode[] {
+  for (const node of nodes) {
+    const tag = tagName(node);
+    if (tag === "office:text") return children(node);
+    if (tag !== "#text" && tag !== "?xml") {
+      const body = findBody(children(node));
+      if (body.length > 0) return body;
+    }
+  }
+  return [];
+}
+
+export const extractOdt: Extractor = async (data) => {
+  const entries = await readZipEntries(data, [CONTENT, META]);
+  const content = entries.get(CONTENT);
+  if (!content) {
+    throw new Error("ODT file has no content.xml");
+  }
+
+  return contentFromBlocks(
+    blocksFromOdt(findBody(parseOrderedXml(content))),
+    documentProperties(entries.get(META))
+  );
+};
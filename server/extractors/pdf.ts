@@ -0,0 +1,313 @@
+import path from "path";
+import { createRequire } from "module";
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { DocumentLink, FormField, OutlineEntry, PdfMetadata } from "@shared/mongo-schema";
+import { countWordChars, needsOcr, recognizeImage } from "../ocr";
+import type { ExtractedPage, Extractor } from "./types";
+
+const require = createRequire(import.meta.url);
+
+// Fonts pdf.js falls back to when a PDF does not embed them; only needed for rendering
+const standardFontDataUrl =
+  path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts") + path.sep;
+
+// Rendering resolution for OCR; high enough for small print, low enough to keep memory in check
+const RENDER_DPI = 200;
+
+// pdf.js AnnotationType.LINK
+const LINK_ANNOTATION = 2;
+
+// pdf.js field types; push buttons hold no data and are left out
+const FIELD_TYPES: Record<string, FormField["type"]> = {
+  text: "text",
+  checkbox: "checkbox",
+  radiobutton: "radio",
+  combobox: "choice",
+  listbox: "choice",
+  signature: "signature",
+};
+
+// Generated documents can have enormous outlines; a table of contents needs far fewer entries
+const MAX_OUTLINE_ENTRIES = 1000;
+
+type PdfJs = typeof import("pdfjs-dist/legacy/build/pdf.mjs");
+
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+// pdf.js is ESM-only, so it is loaded lazily rather than bundled into the CJS build
+function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import("pdfjs-dist/legacy/build/pdf.mjs");
+  }
+  return pdfjsPromise;
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ParsedPdf {
+  numPages: number;
+  pages: PdfPageText[];
+  metadata: PdfMetadata;
+  outline: OutlineEntry[];
+  links: DocumentLink[];
+  formFields: FormField[];
+}
+
+// Encrypted files fail with a PasswordException when the password is missing or wrong
+export async function openPdf(data: Buffer, password?: string): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({
+    // pdf.js takes ownership of the array it is given, so hand it a copy
+    data: new Uint8Array(data),
+    password,
+    isEvalSupported: false,
+    useSystemFonts: true,
+    standardFontDataUrl,
+    verbosity: 0,
+  }).promise;
+}
+
+// Rebuilds reading order the same way pdf-parse did: a new line whenever the
+// baseline moves or pdf.js marks the end of a line.
+function textFromItems(items: Array<TextItem | { type: string }>): string {
+  let text = "";
+  let lastY: number | null = null;
+
+  for (const item of items) {
+    if (!("str" in item)) continue;
+    const y = item.transform[5];
+    if (lastY !== null && y !== lastY && !text.endsWith("\n")) {
+      text += "\n";
+    }
+    text += item.str;
+    if (item.hasEOL) text += "\n";
+    lastY = y;
+  }
+
+  return text.trim();
+}
+
+// Destinations are named, or explicit arrays starting with a page reference or index
+async function resolveDestination(pdf: PDFDocumentProxy, dest: unknown): Promise<number | undefined> {
+  try {
+    const explicit = typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return undefined;
+    const target = explicit[0];
+    const index = typeof target === "number" ? target : await pdf.getPageIndex(target);
+    return index + 1;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readOutline(pdf: PDFDocumentProxy): Promise<OutlineEntry[]> {
+  const outline = await pdf.getOutline().catch(() => null);
+  let remaining = MAX_OUTLINE_ENTRIES;
+
+  const convert = async (items: any[]): Promise<OutlineEntry[]> => {
+    const entries: OutlineEntry[] = [];
+    for (const item of items) {
+      if (remaining-- <= 0) break;
+      entries.push({
+        title: String(item.title ?? "").trim(),
+        pageNumber: await resolveDestination(pdf, item.dest),
+        url: item.url || undefined,
+        children: await convert(item.items || []),
+      });
+    }
+    return entries;
+  };
+  return convert(outline || []);
+}
+
+// Links that go nowhere pdf.js considers safe (javascript: URLs, missing
+// destinations) are left out, as are repeats of the same target on a page
+async function readLinks(pdf: PDFDocumentProxy, page: PDFPageProxy): Promise<DocumentLink[]> {
+  const annotations = await page.getAnnotations().catch(() => []);
+  const links: DocumentLink[] = [];
+  const seen = new Set<string>();
+
+  for (const annotation of annotations) {
+    if (annotation.annotationType !== LINK_ANNOTATION) continue;
+    const url: string | undefined = annotation.url || undefined;
+    const targetPage = url ? undefined : await resolveDestination(pdf, annotation.dest);
+    const key = url ?? (targetPage ? `#${targetPage}` : null);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    links.push({ pageNumber: page.pageNumber, url, targetPage });
+  }
+  return links;
+}
+
+// Each field is listed once with one or more widgets; radio groups have a
+// widget per option. Values that mean "nothing selected" become "".
+async function readFormFields(pdf: PDFDocumentProxy): Promise<FormField[]> {
+  const objects = ((await pdf.getFieldObjects().catch(() => null)) || {}) as Record<string, any[]>;
+  const fields: FormField[] = [];
+
+  for (const [name, widgets] of Object.entries(objects)) {
+    const widget = widgets.find((w) => w.type);
+    const type = widget && FIELD_TYPES[widget.type];
+    if (!type) continue;
+
+    // Choice fields store export values; the options list shows display values
+    const display = (value: unknown) =>
+      widget.items?.find((item: { exportValue: string }) => item.exportValue === value)?.displayValue ?? value;
+    const raw = Array.isArray(widget.value)
+      ? widget.value.map(display).join(", ")
+      : String(display(widget.value) ?? "");
+    const selected = raw === "Off" ? "" : raw;
+    const options =
+      type === "radio"
+        ? Array.from(new Set(widgets.map((w) => w.exportValues).filter(Boolean)))
+        : type === "choice"
+          ? (widget.items || []).map((item: { displayValue: string }) => item.displayValue)
+          : undefined;
+
+    fields.push({
+      name,
+      type,
+      value: type === "checkbox" ? (selected ? "Yes" : "No") : selected,
+      pageNumber: typeof widget.page === "number" && widget.page >= 0 ? widget.page + 1 : undefined,
+      options: options?.length ? options : undefined,
+    });
+  }
+  return fields;
+}
+
+// The information dictionary comes first; XMP metadata fills in what it lacks
+async function readMetadata(pdf: PDFDocumentProxy): Promise<PdfMetadata> {
+  const { PDFDateString } = await loadPdfJs();
+  const { info, metadata } = await pdf.getMetadata().catch(() => ({ info: {}, metadata: null }));
+  const dictionary = (info || {}) as Record<string, unknown>;
+
+  const text = (value: unknown) => {
+    const joined = Array.isArray(value) ? value.join(", ") : value;
+    return typeof joined === "string" && joined.trim() ? joined.trim() : undefined;
+  };
+  const field = (name: string, xmpName: string) => text(dictionary[name]) ?? text(metadata?.get(xmpName));
+  const date = (name: string, xmpName: string) => {
+    const pdfDate = typeof dictionary[name] === "string" ? PDFDateString.toDateObject(dictionary[name] as string) : null;
+    const xmpDate = text(metadata?.get(xmpName));
+    const value = pdfDate ?? (xmpDate ? new Date(xmpDate) : null);
+    return value && !isNaN(value.getTime()) ? value.toISOString() : undefined;
+  };
+
+  return {
+    title: field("Title", "dc:title"),
+    author: field("Author", "dc:creator"),
+    subject: field("Subject", "dc:description"),
+    keywords: field("Keywords", "pdf:keywords"),
+    creator: field("Creator", "xmp:creatortool"),
+    producer: field("Producer", "pdf:producer"),
+    creationDate: date("CreationDate", "xmp:createdate"),
+    modificationDate: date("ModDate", "xmp:modifydate"),
+    pdfVersion: text(dictionary.PDFFormatVersion),
+    language: text(dictionary.Language),
+  };
+}
+
+export async function extractPdfPages(data: Buffer, password?: string): Promise<ParsedPdf> {
+  const pdf = await openPdf(data, password);
+  try {
+    const pages: PdfPageText[] = [];
+    const links: DocumentLink[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push({ pageNumber, text: textFromItems(content.items) });
+      links.push(...(await readLinks(pdf, page)));
+      page.cleanup();
+    }
+
+    return {
+      numPages: pdf.numPages,
+      pages,
+      metadata: await readMetadata(pdf),
+      outline: await readOutline(pdf),
+      links,
+      formFields: await readFormFields(pdf),
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Renders the given pages to PNG one at a time, so only one bitmap is held in memory
+export async function renderPdfPages(
+  data: Buffer,
+  pageNumbers: number[],
+  onPage: (pageNumber: number, png: Buffer) => Promise<void>,
+  password?: string
+): Promise<void> {
+  const pdf = await openPdf(data, password);
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_DPI / 72 });
+      const canvasFactory = (pdf as any).canvasFactory;
+      const { canvas, context } = canvasFactory.create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      const png: Buffer = canvas.toBuffer("image/png");
+      canvasFactory.destroy({ canvas, context });
+      page.cleanup();
+
+      await onPage(pageNumber, png);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Reads each page's text layer, then OCRs pages where it is missing or unusable.
+// The OCR text only replaces a text layer when it actually recovers more content.
+export const extractPdf: Extractor = async (data, { documentId, ocr: mode, password, signal, onProgress }) => {
+  const parsed = await extractPdfPages(data, password);
+  signal.throwIfAborted();
+
+  const pages: ExtractedPage[] = parsed.pages.map((p) => ({ ...p, extractionMethod: "text" }));
+  const targets = mode === "never"
+    ? []
+    : pages.filter((p) => mode === "always" || needsOcr(p.text)).map((p) => p.pageNumber);
+
+  if (targets.length > 0) {
+    console.log(`[${documentId}] Running OCR on ${targets.length} page(s)...`);
+    let done = 0;
+    await renderPdfPages(data, targets, async (pageNumber, png) => {
+      signal.throwIfAborted();
+      const result = await recognizeImage(png);
+      const page = pages[pageNumber - 1];
+
+      if (mode === "always" || countWordChars(result.text) > countWordChars(page.text)) {
+        page.text = result.text;
+        page.extractionMethod = "ocr";
+        page.ocrConfidence = result.confidence;
+      }
+
+      done++;
+      await onProgress?.(done / targets.length);
+    }, password);
+    console.log(`[${documentId}] OCR completed.`);
+  }
+
+  const pdfMetadata = Object.fromEntries(
+    Object.entries(parsed.metadata).filter(([, value]) => value !== undefined)
+  ) as PdfMetadata;
+  const hasNavigation = parsed.outline.length > 0 || parsed.links.length > 0;
+
+  return {
+    pages,
+    headings: [],
+    metadata: { title: pdfMetadata.title, author: pdfMetadata.author, pdf: pdfMetadata },
+    navigation: hasNavigation ? { outline: parsed.outline, links: parsed.links } : undefined,
+    form: parsed.formFields.length > 0 ? { fields: parsed.formFields } : undefined,
+  };
+};
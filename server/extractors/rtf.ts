@@ -0,0 +1,228 @@
+import { collapseWhitespace, contentFromBlocks, type Block } from "./structure";
+import type { Extractor } from "./types";
+
+// Groups holding fonts, styles, pictures, headers and other non-body content
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "themedata",
+  "colorschememapping", "latentstyles", "datastore", "xmlnstbl", "listtable",
+  "listoverridetable", "rsidtbl", "generator", "filetbl", "revtbl", "fldinst",
+  "header", "headerl", "headerr", "headerf", "footer", "footerl", "footerr", "footerf",
+  "footnote",
+]);
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number; // fallback characters following each \uN, set by \ucN
+}
+
+function decoderFor(codePage: number): TextDecoder {
+  try {
+    return new TextDecoder(`windows-${codePage}`);
+  } catch {
+    return new TextDecoder("windows-1252");
+  }
+}
+
+// Converts RTF to blocks. Paragraph outline levels (which Word writes for
+// heading styles) become headings, and \cell / \row runs become tables.
+function blocksFromRtf(rtf: string): Block[] {
+  const blocks: Block[] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let decoder = decoderFor(1252);
+
+  let paragraph = "";
+  let bytes: number[] = []; // \'hh bytes awaiting decoding, as a character may span several
+  let pendingSkip = 0;
+  let outlineLevel: number | null = null;
+  let inTable = false;
+  let row: string[] = [];
+  let rows: string[][] = [];
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      paragraph += decoder.decode(new Uint8Array(bytes));
+      bytes = [];
+    }
+  };
+  const emit = (text: string) => {
+    if (state.skip) return;
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    flushBytes();
+    paragraph += text;
+  };
+  const paragraphText = () => {
+    flushBytes();
+    const text = paragraph.split("\n").map(collapseWhitespace).filter(Boolean).join("\n");
+    paragraph = "";
+    return text;
+  };
+  const flushTable = () => {
+    if (row.length > 0) rows.push(row);
+    if (rows.length > 0) blocks.push({ type: "table", rows });
+    row = [];
+    rows = [];
+  };
+  const endParagraph = () => {
+    if (inTable) {
+      paragraph += "\n";
+      return;
+    }
+    flushTable();
+    const text = paragraphText();
+    if (!text) return;
+    blocks.push(
+      outlineLevel !== null
+        ? { type: "heading", level: outlineLevel + 1, text: collapseWhitespace(text) }
+        : { type: "paragraph", text }
+    );
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      stack.push(state);
+      state = { ...state };
+      continue;
+    }
+    if (char === "}") {
+      state = stack.pop() || state;
+      continue;
+    }
+    if (char === "\r" || char === "\n") continue;
+    if (char !== "\\") {
+      emit(char);
+      continue;
+    }
+
+    const next = rtf[++i];
+    if (next === undefined) break;
+
+    // Control symbols
+    if (!/[a-zA-Z]/.test(next)) {
+      if (next === "'") {
+        const byte = parseInt(rtf.substr(i + 1, 2), 16);
+        i += 2;
+        if (state.skip) continue;
+        if (pendingSkip > 0) {
+          pendingSkip--;
+        } else if (!Number.isNaN(byte)) {
+          bytes.push(byte);
+        }
+      } else if (next === "*") {
+        state.skip = true;
+      } else if (next === "~") {
+        emit(" ");
+      } else if (next === "_") {
+        emit("-");
+      } else if (next === "\n" || next === "\r") {
+        if (!state.skip) endParagraph();
+      } else if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+      }
+      continue;
+    }
+
+    // Control words: letters, an optional signed number, and an optional space delimiter
+    let word = "";
+    while (i < rtf.length && /[a-zA-Z]/.test(rtf[i])) word += rtf[i++];
+    let digits = "";
+    if (rtf[i] === "-" || /[0-9]/.test(rtf[i] || "")) {
+      digits += rtf[i++];
+      while (i < rtf.length && /[0-9]/.test(rtf[i])) digits += rtf[i++];
+    }
+    if (rtf[i] !== " ") i--;
+    const param = digits ? parseInt(digits, 10) : null;
+
+    if (word === "bin" && param) {
+      i += param;
+      continue;
+    }
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+    if (word === "ansicpg" && param) {
+      decoder = decoderFor(param);
+      continue;
+    }
+    if (word === "uc" && param !== null) {
+      state.unicodeSkip = param;
+      continue;
+    }
+    if (state.skip) continue;
+
+    switch (word) {
+      case "u":
+        if (param !== null) {
+          pendingSkip = 0;
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          pendingSkip = state.unicodeSkip;
+        }
+        break;
+      case "par":
+      case "sect":
+        endParagraph();
+        break;
+      case "line":
+        emit("\n");
+        break;
+      case "tab":
+        emit("\t");
+        break;
+      case "emdash":
+        emit("—");
+        break;
+      case "endash":
+        emit("–");
+        break;
+      case "bullet":
+        emit("•");
+        break;
+      case "lquote":
+      case "rquote":
+        emit("'");
+        break;
+      case "ldblquote":
+      case "rdblquote":
+        emit("\"");
+        break;
+      case "page":
+        endParagraph();
+        flushTable();
+        blocks.push({ type: "pageBreak" });
+        break;
+      case "pard":
+        outlineLevel = null;
+        inTable = false;
+        break;
+      case "intbl":
+        inTable = true;
+        break;
+      case "outlinelevel":
+        outlineLevel = param !== null && param < 9 ? param : null;
+        break;
+      case "cell":
+        row.push(collapseWhitespace(paragraphText()));
+        break;
+      case "row":
+        rows.push(row);
+        row = [];
+        break;
+    }
+  }
+
+  inTable = false;
+  endParagraph();
+  flushTable();
+  return blocks;
+}
+
+export const extractRtf: Extractor = async (data) => {
+  // RTF is 7-bit; anything beyond ASCII is escaped, so latin1 reads it losslessly
+  return contentFromBlocks(blocksFromRtf(data.toString("latin1")));
+};
@@ -0,0 +1,171 @@
+import XLSX from "xlsx";
+import * as cptable from "xlsx/dist/cpexcel.full.mjs";
+import type { DocumentHeading, ExtractedTable, TableCellValue } from "@shared/mongo-schema";
+import { decodeText } from "./text";
+import type { ExtractedPage, Extractor } from "./types";
+
+// Rows read per sheet; anything beyond is neither analysed nor stored
+const MAX_SHEET_ROWS = 50_000;
+// Data rows kept per table
+const MAX_TABLE_ROWS = 2_000;
+// The tables of every sheet are stored together in the document's analysis,
+// which has to fit in a single 16 MB MongoDB document. Rows are kept until their
+// estimated size (the text of `rows` and the values of `cells`) reaches this.
+const MAX_TABLE_BYTES = 8 * 1024 * 1024;
+// Estimated storage overhead of a cell in `rows` and `cells`
+const CELL_OVERHEAD_BYTES = 48;
+// Characters of text kept across all sheets, so that a sheet's page stays
+// within the same limit and the text to analyse stays manageable
+const MAX_TEXT_CHARS = 4_000_000;
+// Guards against sheets whose declared range spans every column
+const MAX_COLUMNS = 256;
+
+// The ES module build of SheetJS leaves out the code pages that legacy XLS
+// files in older encodings are read with
+XLSX.set_cptable(cptable);
+
+// XLSX is a ZIP container, legacy XLS an OLE2 compound file
+const ZIP_SIGNATURE = "PK\x03\x04";
+const OLE_SIGNATURE = "\xd0\xcf\x11\xe0";
+
+type Cell = XLSX.CellObject | undefined;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Spreadsheet dates are serial numbers with a date format; they are converted
+// to ISO strings without going through a JavaScript Date and its time zone.
+function dateValue(serial: number): string {
+  const date = XLSX.SSF.parse_date_code(serial);
+  const day = `${date.y}-${pad(date.m)}-${pad(date.d)}`;
+  return date.H || date.M || date.S ? `${day}T${pad(date.H)}:${pad(date.M)}:${pad(date.S)}` : day;
+}
+
+function typedValue(cell: Cell): TableCellValue {
+  if (!cell || cell.v === undefined || cell.v === null || cell.t === "z") {
+    return { type: "empty", value: null };
+  }
+  switch (cell.t) {
+    case "n":
+      return cell.z && XLSX.SSF.is_date(cell.z)
+        ? { type: "date", value: dateValue(cell.v as number) }
+        : { type: "number", value: cell.v as number };
+    case "b":
+      return { type: "boolean", value: cell.v as boolean };
+    case "e":
+      return { type: "error", value: cell.w || "#ERROR" };
+    default:
+      return { type: "string", value: String(cell.v) };
+  }
+}
+
+// The text of a cell as the spreadsheet displays it
+function cellText(cell: Cell): string {
+  if (!cell || cell.v === undefined || cell.v === null) return "";
+  return (cell.w ?? String(cell.v)).trim();
+}
+
+function rowBytes(row: string[]): number {
+  return row.reduce((bytes, text) => bytes + 2 * Buffer.byteLength(text) + CELL_OVERHEAD_BYTES, 0);
+}
+
+// Non-empty rows of a sheet, trimmed to the columns that hold any data
+function sheetRows(sheet: XLSX.WorkSheet): Cell[][] {
+  if (!sheet["!ref"]) return [];
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  const lastColumn = Math.min(range.e.c, range.s.c + MAX_COLUMNS - 1);
+
+  const rows: Cell[][] = [];
+  let width = 0;
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: Cell[] = [];
+    for (let c = range.s.c; c <= lastColumn; c++) {
+      row.push(sheet[XLSX.utils.encode_cell({ r, c })]);
+    }
+    const used = row.map(cellText).findLastIndex((text: string) => text !== "") + 1;
+    if (used === 0) continue;
+    width = Math.max(width, used);
+    rows.push(row);
+  }
+  return rows.map((row) => row.slice(0, width));
+}
+
+function readWorkbook(data: Buffer): XLSX.WorkBook {
+  // Number formats are kept (cellNF) because they are what marks a number as a date
+  const options: XLSX.ParsingOptions = {
+    sheetRows: MAX_SHEET_ROWS,
+    cellNF: true,
+    cellFormula: false,
+    cellHTML: false,
+  };
+  const signature = data.subarray(0, 4).toString("latin1");
+  if (signature === ZIP_SIGNATURE || signature === OLE_SIGNATURE) {
+    return XLSX.read(data, { ...options, type: "buffer" });
+  }
+  // CSV carries no encoding information, so it is decoded the same way as plain
+  // text, and dates SheetJS recognises in it are displayed as ISO dates
+  return XLSX.read(decodeText(data), { ...options, type: "string", dateNF: "yyyy-mm-dd" });
+}
+
+// Every sheet becomes a page and a native table: the first non-empty row is
+// the header row, and cells keep both their displayed text and typed value.
+export const extractSpreadsheet: Extractor = async (data) => {
+  const workbook = readWorkbook(data);
+  const multipleSheets = workbook.SheetNames.length > 1;
+
+  const pages: ExtractedPage[] = [];
+  const headings: DocumentHeading[] = [];
+  const tables: ExtractedTable[] = [];
+  let textLeft = MAX_TEXT_CHARS;
+  let tableBytesLeft = MAX_TABLE_BYTES;
+
+  for (const name of workbook.SheetNames) {
+    const rows = sheetRows(workbook.Sheets[name]);
+    if (rows.length === 0) continue;
+
+    const pageNumber = pages.length + 1;
+    const textRows = rows.map((row) => row.map(cellText));
+    const lines: string[] = [];
+    for (const row of textRows) {
+      const line = row.join("\t");
+      if (line.length + 1 > textLeft) break;
+      textLeft -= line.length + 1;
+      lines.push(line);
+    }
+    if (multipleSheets) {
+      headings.push({ level: 1, text: name, pageNumber });
+      lines.unshift(name, "");
+    }
+    pages.push({ pageNumber, text: lines.join("\n"), extractionMethod: "text" });
+
+    const [headers, ...body] = textRows;
+    tableBytesLeft -= rowBytes(headers);
+    let keptRows = 0;
+    for (const row of body.slice(0, MAX_TABLE_ROWS)) {
+      const bytes = rowBytes(row);
+      if (bytes > tableBytesLeft) break;
+      tableBytesLeft -= bytes;
+      keptRows++;
+    }
+    const kept = body.slice(0, keptRows);
+    tables.push({
+      name,
+      headers,
+      rows: kept,
+      cells: rows.slice(1, kept.length + 1).map((row) => row.map(typedValue)),
+      confidence: 1,
+      source: "native",
+      ...(body.length > kept.length ? { totalRows: body.length } : {}),
+    });
+  }
+
+  if (pages.length === 0) {
+    pages.push({ pageNumber: 1, text: "", extractionMethod: "text" });
+  }
+
+  return {
+    pages,
+    headings,
+    tables,
+    metadata: { title: workbook.Props?.Title, author: workbook.Props?.Author },
+  };
+};
@@ -0,0 +1,74 @@
+import type { DocumentHeading, ExtractedTable } from "@shared/mongo-schema";
+import type { ExtractedContent, ExtractedPage } from "./types";
+
+// Format-neutral document outline that structured extractors (HTML, DOCX, ODT,
+// RTF, Markdown) reduce their input to before it becomes pages of text.
+export type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "table"; rows: string[][] }
+  | { type: "pageBreak" };
+
+const BLOCK_SEPARATOR = "\n\n";
+
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function toTable(rows: string[][]): ExtractedTable | null {
+  const filled = rows.filter((row) => row.some((cell) => cell.length > 0));
+  if (filled.length < 2) return null;
+
+  // The first row is treated as the header row, as the text heuristics do
+  const [headers, ...body] = filled;
+  const width = Math.max(...filled.map((row) => row.length));
+  const pad = (row: string[]) => row.concat(Array(width - row.length).fill(""));
+
+  return { headers: pad(headers), rows: body.map(pad), confidence: 1, source: "native" };
+}
+
+export function contentFromBlocks(
+  blocks: Block[],
+  metadata: Record<string, any> = {}
+): ExtractedContent {
+  const pages: ExtractedPage[] = [];
+  const headings: DocumentHeading[] = [];
+  const tables: ExtractedTable[] = [];
+  let parts: string[] = [];
+
+  const flushPage = () => {
+    pages.push({
+      pageNumber: pages.length + 1,
+      text: parts.join(BLOCK_SEPARATOR),
+      extractionMethod: "text",
+    });
+    parts = [];
+  };
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading":
+        if (!block.text) break;
+        headings.push({ level: block.level, text: block.text, pageNumber: pages.length + 1 });
+        parts.push(block.text);
+        break;
+      case "paragraph":
+        if (block.text) parts.push(block.text);
+        break;
+      case "table": {
+        const table = toTable(block.rows);
+        if (table) tables.push(table);
+        // Tab-separated rows keep table text searchable and readable in the text view
+        const text = block.rows.map((row) => row.join("\t")).join("\n").trim();
+        if (text) parts.push(text);
+        break;
+      }
+      case "pageBreak":
+        if (parts.length > 0) flushPage();
+        break;
+    }
+  }
+  if (parts.length > 0 || pages.length === 0) flushPage();
+
+  return { pages, headings, tables, metadata };
+}
@@ -0,0 +1,34 @@
+import type { Extractor } from "./types";
+
+// Honours a byte order mark, otherwise reads UTF-8 and falls back to
+// Windows-1252 for legacy files that are not valid UTF-8.
+export function decodeText(data: Buffer): string {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(data.subarray(3));
+  }
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(data.subarray(2));
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(data.subarray(2));
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder("windows-1252").decode(data);
+  }
+}
+
+// Plain text has no structure beyond form feeds, which mark page breaks
+export const extractText: Extractor = async (data) => {
+  const pages = decodeText(data)
+    .replace(/\r\n?/g, "\n")
+    .split("\f")
+    .map((text, index) => ({
+      pageNumber: index + 1,
+      text: text.trim(),
+      extractionMethod: "text" as const,
+    }));
+
+  return { pages, headings: [], metadata: {} };
+};
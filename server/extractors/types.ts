@@ -0,0 +1,41 @@
+import type { DocumentForm, DocumentHeading, DocumentNavigation, ExtractedTable } from "@shared/mongo-schema";
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  extractionMethod: "text" | "ocr";
+  ocrConfidence?: number;
+}
+
+export interface ExtractedContent {
+  pages: ExtractedPage[];
+  headings: DocumentHeading[];
+  // Tables read from the file's own markup. Left undefined by formats that have
+  // no table structure, so the pipeline falls back to detecting them in the text.
+  tables?: ExtractedTable[];
+  metadata: Record<string, any>;
+  // Files embedded in the document (email attachments), processed as documents of their own
+  attachments?: ExtractedAttachment[];
+  // Bookmarks and links of formats that have them (PDF)
+  navigation?: DocumentNavigation;
+  // Fillable form fields and their values (PDF forms)
+  form?: DocumentForm;
+}
+
+export interface ExtractedAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ExtractOptions {
+  documentId: string;
+  ocr: "auto" | "always" | "never";
+  // Password of an encrypted file, when the user has given one
+  password?: string;
+  signal: AbortSignal;
+  // Reports progress through the slow part of an extraction, from 0 to 1
+  onProgress?: (fraction: number) => Promise<void>;
+}
+
+export type Extractor = (data: Buffer, options: ExtractOptions) => Promise<ExtractedContent>;
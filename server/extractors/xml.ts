@@ -0,0 +1,47 @@
+import { XMLParser } from "fast-xml-parser";
+
+// Values stay strings: numbers and booleans in document text must not be coerced
+const parserOptions = {
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+};
+
+export type OrderedXmlNode = Record<string, any>;
+
+// Document order matters for text, so body XML is parsed into ordered node lists:
+// each node is { [tagName]: children, ":@": attributes } or { "#text": string }.
+export function parseOrderedXml(xml: Buffer): OrderedXmlNode[] {
+  return new XMLParser({ ...parserOptions, preserveOrder: true }).parse(xml.toString("utf-8"));
+}
+
+export function tagName(node: OrderedXmlNode): string {
+  return Object.keys(node).find((key) => key !== ":@") || "";
+}
+
+function findValue(value: any, key: string): string | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  if (key in value) {
+    const found = value[key];
+    const text = typeof found === "object" ? found["#text"] : found;
+    return typeof text === "string" && text.trim() ? text.trim() : undefined;
+  }
+  for (const child of Object.values(value)) {
+    const found = findValue(child, key);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Title and author from Dublin Core properties, as stored by both
+// docProps/core.xml (DOCX) and meta.xml (ODT)
+export function documentProperties(xml: Buffer | undefined): Record<string, any> {
+  if (!xml) return {};
+  const properties = new XMLParser(parserOptions).parse(xml.toString("utf-8"));
+  return {
+    title: findValue(properties, "dc:title"),
+    author: findValue(properties, "dc:creator") || findValue(properties, "meta:initial-creator"),
+  };
+}
@@ -0,0 +1,137 @@
+import RE2 from "re2";
+import type { CustomEntityType, ExtractedEntity } from "@shared/mongo-schema";
+
+// A pattern matching more often than this is too broad to be useful
+const MAX_PATTERN_MATCHES = 1000;
+const MAX_PATTERN_LENGTH = 200;
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[A-Za-z0-9\u00C0-\u024F]/.test(char);
+}
+
+// The patterns that do not compile, each with its error, to report back when
+// a type is saved. Patterns run on RE2, which matches in linear time, so a
+// pattern such as "(a+)+$" cannot stall the server; backreferences and
+// lookarounds are not supported.
+export function invalidPatterns(patterns: string[]): string[] {
+  const errors: string[] = [];
+  for (const pattern of patterns) {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`${pattern.slice(0, 40)}…: longer than ${MAX_PATTERN_LENGTH} characters`);
+      continue;
+    }
+    try {
+      new RE2(pattern);
+    } catch (error) {
+      errors.push(`${pattern}: ${(error as Error).message}`);
+    }
+  }
+  return errors;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Terms are indexed by their first word, so the text is scanned once whatever
+// the size of the dictionary. Terms that do not start with a letter or digit
+// are searched for one by one.
+function findTerms(text: string, type: CustomEntityType, found: Set<string>) {
+  const fold = (value: string) => (type.caseSensitive ? value : value.toLowerCase());
+  const byFirstWord = new Map<string, string[]>();
+  const unindexed: string[] = [];
+  for (const term of type.terms) {
+    const first = term.match(/^[A-Za-z0-9\u00C0-\u024F]+/);
+    if (!first) {
+      unindexed.push(term);
+      continue;
+    }
+    const key = fold(first[0]);
+    if (!byFirstWord.has(key)) byFirstWord.set(key, []);
+    byFirstWord.get(key)!.push(fold(term));
+  }
+  // Longest first, so "Project Apollo 2" wins over "Project Apollo"
+  byFirstWord.forEach((terms) => terms.sort((a, b) => b.length - a.length));
+
+  const word = /[A-Za-z0-9\u00C0-\u024F]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = word.exec(text))) {
+    const candidates = byFirstWord.get(fold(match[0]));
+    if (!candidates) continue;
+    const start = match.index;
+    const term = candidates.find(
+      (candidate) =>
+        fold(text.slice(start, start + candidate.length)) === candidate &&
+        !isWordChar(text[start + candidate.length])
+    );
+    if (term) found.add(text.slice(start, start + term.length));
+  }
+
+  for (const term of unindexed) {
+    const regex = new RegExp(escapeRegex(term), type.caseSensitive ? "g" : "gi");
+    while ((match = regex.exec(text))) {
+      const end = match.index + match[0].length;
+      if (!isWordChar(text[match.index - 1]) && !isWordChar(text[end])) found.add(match[0]);
+      regex.lastIndex = match.index + 1;
+    }
+  }
+}
+
+function findPatterns(text: string, type: CustomEntityType, found: Set<string>) {
+  for (const pattern of type.patterns) {
+    if (pattern.length > MAX_PATTERN_LENGTH) continue;
+    let regex: RE2;
+    try {
+      regex = new RE2(pattern, type.caseSensitive ? "g" : "gi");
+    } catch (error) {
+      console.warn(`Skipping invalid pattern of entity type "${type.name}":`, error);
+      continue;
+    }
+
+    let count = 0;
+    let match: RegExpExecArray | null;
+    // Empty matches count towards the limit as well
+    while ((match = regex.exec(text)) && count < MAX_PATTERN_MATCHES) {
+      count++;
+      // Empty matches would never advance
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      const value = match[0].trim();
+      if (value) found.add(value);
+    }
+  }
+}
+
+// Entities of the user's custom types, each distinct spelling once per type
+export function findCustomEntities(text: string, types: CustomEntityType[]): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  for (const type of types) {
+    const fromTerms = new Set<string>();
+    const fromPatterns = new Set<string>();
+    findTerms(text, type, fromTerms);
+    findPatterns(text, type, fromPatterns);
+
+    const customTypeId = String(type._id);
+    fromTerms.forEach((value) => {
+      entities.push({ type: "custom", customTypeId, text: value, confidence: 1 });
+    });
+    fromPatterns.forEach((value) => {
+      if (fromTerms.has(value)) return;
+      entities.push({ type: "custom", customTypeId, text: value, confidence: 0.9 });
+    });
+  }
+  return entities;
+}
+
+// The analysis lists of custom entities, by type id
+export function groupCustomEntities(entities: ExtractedEntity[]): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  for (const entity of entities) {
+    if (entity.type !== "custom" || !entity.customTypeId) continue;
+    if (!groups[entity.customTypeId]) groups[entity.customTypeId] = [];
+    groups[entity.customTypeId].push(entity.text);
+  }
+  return groups;
+}
@@ -0,0 +1,193 @@
+import os from "os";
+import { randomUUID } from "crypto";
+import { isDuplicateKeyError, storage } from "./storage";
+import type { Job } from "@shared/mongo-schema";
+
+export interface JobHandler {
+  run(job: Job, signal: AbortSignal): Promise<void>;
+  // Called once a failed attempt has been rescheduled or dead-lettered
+  onFailure?(job: Job, error: unknown, willRetry: boolean): Promise<void>;
+  // Errors for which this returns false fail the job without further attempts
+  shouldRetry?(error: unknown): boolean;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  leaseMs: number;
+  // An attempt running longer than this is aborted with a TimeoutError
+  timeoutMs: number;
+  pollIntervalMs: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private running = new Map<string, { documentId: string; controller: AbortController }>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  readonly workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(private options: JobQueueOptions) {}
+
+  register(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(
+    type: string,
+    documentId: string,
+    userId: string,
+    payload?: unknown
+  ): Promise<Job> {
+    // A document never has more than one pending job of the same type. The
+    // unique index on active jobs settles two servers enqueueing at once.
+    const existing = await storage.getActiveJob(documentId, type);
+    if (existing) return existing;
+
+    let job: Job;
+    try {
+      job = await storage.createJob({
+        type,
+        documentId,
+        userId,
+        payload,
+        maxAttempts: this.options.maxAttempts,
+      });
+    } catch (error) {
+      const active = isDuplicateKeyError(error) ? await storage.getActiveJob(documentId, type) : null;
+      if (!active) throw error;
+      return active;
+    }
+    setImmediate(() => this.poll());
+    return job;
+  }
+
+  start() {
+    if (this.timer) return;
+    console.log(
+      `Job queue started (worker ${this.workerId}, concurrency ${this.options.concurrency})`
+    );
+    this.timer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    this.poll();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.running.forEach(({ controller }) => controller.abort());
+  }
+
+  // Stops any attempt this worker is running for the document. Workers on other
+  // servers notice the cancellation on their next heartbeat.
+  async cancel(documentId: string): Promise<number> {
+    const cancelled = await storage.cancelJobs(documentId);
+    this.running.forEach((entry) => {
+      if (entry.documentId === documentId) entry.controller.abort();
+    });
+    return cancelled;
+  }
+
+  private async poll() {
+    if (this.polling || !this.timer) return;
+    this.polling = true;
+    try {
+      while (this.running.size < this.options.concurrency) {
+        const job = await storage.claimJob(this.workerId, this.options.leaseMs);
+        if (!job) break;
+        this.execute(job);
+      }
+    } catch (error) {
+      console.error("Error polling job queue:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async execute(job: Job) {
+    const jobId = job._id.toString();
+    const controller = new AbortController();
+    this.running.set(jobId, { documentId: job.documentId, controller });
+
+    // Renew the lease while the job runs; losing it means another worker
+    // may pick the job up, so this attempt has to stop.
+    const heartbeat = setInterval(async () => {
+      try {
+        const renewed = await storage.heartbeatJob(jobId, this.workerId, this.options.leaseMs);
+        if (!renewed) controller.abort();
+      } catch (error) {
+        console.error(`[job ${jobId}] Heartbeat failed:`, error);
+      }
+    }, Math.max(1000, Math.floor(this.options.leaseMs / 3)));
+    const timeout = setTimeout(() => {
+      controller.abort(new DOMException(`Job timed out after ${this.options.timeoutMs} ms`, "TimeoutError"));
+    }, this.options.timeoutMs);
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`No handler registered for job type "${job.type}"`);
+      }
+      if (job.attempts > job.maxAttempts) {
+        throw new Error(`Job exceeded ${job.maxAttempts} attempts`);
+      }
+
+      console.log(`[job ${jobId}] Running ${job.type} for document ${job.documentId} (attempt ${job.attempts}/${job.maxAttempts})`);
+      await handler.run(job, controller.signal);
+      await storage.completeJob(jobId, this.workerId);
+    } catch (error) {
+      await this.handleFailure(job, error);
+    } finally {
+      clearInterval(heartbeat);
+      clearTimeout(timeout);
+      this.running.delete(jobId);
+      setImmediate(() => this.poll());
+    }
+  }
+
+  private async handleFailure(job: Job, error: unknown) {
+    const jobId = job._id.toString();
+    const message = error instanceof Error ? error.message : String(error);
+    const handler = this.handlers.get(job.type);
+    const willRetry = job.attempts < job.maxAttempts && handler?.shouldRetry?.(error) !== false;
+    const retryAt = willRetry ? new Date(Date.now() + this.backoff(job.attempts)) : null;
+
+    if (willRetry) {
+      console.warn(`[job ${jobId}] Attempt ${job.attempts} failed, retrying at ${retryAt!.toISOString()}: ${message}`);
+    } else {
+      console.error(`[job ${jobId}] Failed permanently after ${job.attempts} attempt(s): ${message}`);
+    }
+
+    try {
+      const owned = await storage.failJob(jobId, this.workerId, message, retryAt);
+      // A cancelled job, or one another worker has taken over, is not ours to report on
+      if (!owned) return;
+      await handler?.onFailure?.(job, error, willRetry);
+    } catch (storeError) {
+      console.error(`[job ${jobId}] Could not record failure:`, storeError);
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const delay = this.options.backoffBaseMs * 2 ** Math.max(0, attempt - 1);
+    return Math.min(delay, this.options.backoffMaxMs);
+  }
+}
+
+export const jobQueue = new JobQueue({
+  concurrency: envInt("JOB_CONCURRENCY", 2),
+  maxAttempts: envInt("JOB_MAX_ATTEMPTS", 5),
+  leaseMs: envInt("JOB_LEASE_MS", 60_000),
+  timeoutMs: envInt("JOB_TIMEOUT_MS", 30 * 60_000),
+  pollIntervalMs: envInt("JOB_POLL_INTERVAL_MS", 2_000),
+  backoffBaseMs: envInt("JOB_BACKOFF_BASE_MS", 5_000),
+  backoffMaxMs: envInt("JOB_BACKOFF_MAX_MS", 10 * 60_000),
+});
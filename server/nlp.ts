@@ -1,7 +1,22 @@
 import nlp from "compromise";
-import type { ExtractedEntity, ExtractedTable } from "@shared/mongo-schema";
+import type { CustomEntityType, EntityOccurrence, ExtractedEntity, ExtractedTable } from "@shared/mongo-schema";
+import { extractPatternEntities } from "./patterns";
+import { findCustomEntities } from "./gazetteer";
+import { findCodedAmounts, findQuantities, normalizeMoney } from "./normalize";
 
-export function extractEntities(text: string): ExtractedEntity[] {
+// The text of a match as written in the document, without the punctuation
+// around it ("(March 3rd, 2024)," -> "March 3rd, 2024")
+function matchText(match: any, text: string): string {
+  const offset = match.json({ offset: true })[0]?.offset;
+  if (!offset) return "";
+  return text
+    .slice(offset.start, offset.start + offset.length)
+    .replace(/^[\s"'(\[{,;:.!?]+/, "")
+    .replace(/[\s"')\]},;:.!?]+$/, "");
+}
+
+// `customTypes` are the document owner's own entity types
+export function extractEntities(text: string, customTypes: CustomEntityType[] = []): ExtractedEntity[] {
   const doc = nlp(text);
   const entities: ExtractedEntity[] = [];
   const seen = new Set<string>();
@@ -58,44 +73,120 @@ export function extractEntities(text: string): ExtractedEntity[] {
   }
 
   try {
-    // Extract dates - check if dates() method exists
-    if (typeof doc.dates === 'function') {
-      doc.dates().forEach((date: any) => {
-        const text = date.text().trim();
-        if (text && !seen.has(text.toLowerCase())) {
-          seen.add(text.toLowerCase());
-          entities.push({
-            type: "date",
-            text,
-            confidence: 0.85,
-          });
-        }
-      });
-    }
+    // Extract dates - the compromise-dates plugin adds dates(); without it,
+    // words tagged as dates are used, with a leading next/last/this
+    const dates = typeof doc.dates === 'function' ? doc.dates() : doc.match('(next|last|this)? #Date+');
+    dates.forEach((date: any) => {
+      const value = matchText(date, text);
+      if (value && !seen.has(value.toLowerCase())) {
+        seen.add(value.toLowerCase());
+        entities.push({
+          type: "date",
+          text: value,
+          confidence: 0.85,
+        });
+      }
+    });
   } catch (e) {
     console.warn("Failed to extract dates:", e);
   }
 
   try {
-    // Extract money/values - check if money() method exists
-    if (typeof doc.money === 'function') {
-      doc.money().forEach((money: any) => {
-        const text = money.text().trim();
-        if (text && !seen.has(text.toLowerCase())) {
-          seen.add(text.toLowerCase());
-          entities.push({
-            type: "money",
-            text,
-            confidence: 0.9,
-          });
-        }
-      });
-    }
+    // Extract money - compromise tags bare numbers as money too, so only
+    // amounts with a currency are kept
+    doc.match('#Currency? #Money+ (thousand|million|billion|trillion)? #Currency?').forEach((money: any) => {
+      const value = matchText(money, text);
+      const normalized = normalizeMoney(value);
+      if (value && normalized && !seen.has(value.toLowerCase())) {
+        seen.add(value.toLowerCase());
+        entities.push({
+          type: "money",
+          text: value,
+          confidence: 0.9,
+          normalized,
+        });
+      }
+    });
   } catch (e) {
     console.warn("Failed to extract money:", e);
   }
 
-  return entities;
+  try {
+    // Amounts with an ISO code ("USD 10,000", "250 CHF") are not tagged by compromise
+    findCodedAmounts(text).forEach((money) => {
+      if (!seen.has(money.text.toLowerCase())) {
+        seen.add(money.text.toLowerCase());
+        entities.push(money);
+      }
+    });
+  } catch (e) {
+    console.warn("Failed to extract amounts with a currency code:", e);
+  }
+
+  let patternEntities: ExtractedEntity[] = [];
+  try {
+    // Emails, phone numbers, URLs, bank details and other identifiers, then
+    // percentages and measurements
+    patternEntities = [...extractPatternEntities(text), ...findQuantities(text)];
+  } catch (e) {
+    console.warn("Failed to extract contact details and identifiers:", e);
+  }
+
+  // compromise reads the digit groups of phone numbers and IBANs as amounts and dates
+  const covered = (entity: ExtractedEntity) =>
+    (entity.type === "money" || entity.type === "date") &&
+    patternEntities.some((p) => p.text.includes(entity.text));
+
+  let customEntities: ExtractedEntity[] = [];
+  try {
+    customEntities = findCustomEntities(text, customTypes);
+  } catch (e) {
+    console.warn("Failed to extract custom entities:", e);
+  }
+
+  return [...entities.filter((e) => !covered(e)), ...patternEntities, ...customEntities];
+}
+
+// Common entities such as a company name can appear thousands of times; the
+// viewer only needs enough to step through
+const MAX_OCCURRENCES = 200;
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[A-Za-z0-9\u00C0-\u024F]/.test(char);
+}
+
+// Finds every whole-word occurrence of each entity and the page it is on.
+// `pages` are the character ranges of each page in `text`.
+export function locateEntities(
+  text: string,
+  entities: ExtractedEntity[],
+  pages: Array<{ pageNumber: number; charStart: number; charEnd: number }>
+): ExtractedEntity[] {
+  const pageAt = (offset: number) => {
+    let low = 0;
+    let high = pages.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (pages[mid].charStart <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return pages[low]?.pageNumber ?? 1;
+  };
+
+  return entities.map((entity) => {
+    const occurrences: EntityOccurrence[] = [];
+    let from = 0;
+    while (occurrences.length < MAX_OCCURRENCES) {
+      const start = text.indexOf(entity.text, from);
+      if (start === -1) break;
+      const end = start + entity.text.length;
+      if (!isWordChar(text[start - 1]) && !isWordChar(text[end])) {
+        occurrences.push({ start, end, pageNumber: pageAt(start) });
+      }
+      from = start + 1;
+    }
+    return { ...entity, occurrences };
+  });
 }
 
 export function extractKeywordsFromText(text: string): string[] {
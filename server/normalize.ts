@@ -0,0 +1,406 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  isValid,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import type {
+  EntityValueFilter,
+  ExtractedEntity,
+  NormalizedValue,
+} from "@shared/mongo-schema";
+
+// Turns the raw text of dates, amounts and quantities into values that can be
+// sorted, compared and summed. Every parser returns null for text it does not
+// understand rather than guessing.
+
+type NormalizedDate = Extract<NormalizedValue, { kind: "date" }>;
+type NormalizedMoney = Extract<NormalizedValue, { kind: "money" }>;
+type NormalizedQuantity = Extract<NormalizedValue, { kind: "quantity" }>;
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// Longer symbols first, so "US$" is not read as "$"
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ["US$", "USD"], ["A$", "AUD"], ["C$", "CAD"], ["NZ$", "NZD"], ["HK$", "HKD"], ["R$", "BRL"],
+  ["$", "USD"], ["€", "EUR"], ["£", "GBP"], ["¥", "JPY"], ["₹", "INR"], ["₩", "KRW"], ["₽", "RUB"],
+  ["₺", "TRY"], ["₪", "ILS"], ["₫", "VND"], ["₱", "PHP"], ["฿", "THB"], ["zł", "PLN"],
+];
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: "USD", dollars: "USD", euro: "EUR", euros: "EUR", pound: "GBP", pounds: "GBP",
+  yen: "JPY", rupee: "INR", rupees: "INR", franc: "CHF", francs: "CHF", yuan: "CNY",
+};
+
+const CURRENCY_CODES = new Set([
+  "USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD", "NZD", "CNY", "HKD", "SGD", "INR", "KRW",
+  "SEK", "NOK", "DKK", "PLN", "CZK", "HUF", "RON", "BGN", "TRY", "RUB", "BRL", "MXN", "ZAR",
+  "AED", "SAR", "ILS", "THB", "PHP", "VND", "IDR", "MYR",
+]);
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, mn: 1e6, mln: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9, t: 1e12, tn: 1e12, trillion: 1e12,
+};
+
+// Canonical unit for each spelling; "%" covers percentages
+const UNITS: Record<string, string> = {
+  "%": "%", percent: "%", "per cent": "%", pct: "%",
+  mg: "mg", kg: "kg", tonnes: "t", tons: "t", lb: "lb", lbs: "lb", oz: "oz",
+  mm: "mm", cm: "cm", km: "km", ft: "ft", mi: "mi", miles: "mi",
+  ml: "ml", litres: "l", liters: "l", gal: "gal", gallons: "gal",
+  "m2": "m²", "m²": "m²", "sq ft": "sq ft", "sqm": "m²", "ha": "ha", "acres": "acre",
+  hrs: "h", hours: "h", min: "min", minutes: "min", days: "d", weeks: "wk",
+  months: "mo", years: "yr",
+  kwh: "kWh", mwh: "MWh", kw: "kW", mw: "MW",
+  "°c": "°C", "°f": "°F", gb: "GB", tb: "TB", mb: "MB",
+};
+
+// A number and its unit. Amounts ("$1.2m") are left to money.
+const UNIT_PATTERN =
+  /(?:^|[^\w.,$€£¥₹])(-?\d[\d,.]*\d|-?\d)( ?)(%|per cent|percent|pct|sq ft|kwh|mwh|kw|mw|°c|°f|kg|mg|lbs?|oz|tonnes|tons|km|cm|mm|mi|miles|ml|litres|liters|gal|gallons|m²|m2|sqm|ha|acres|hrs|hours|minutes|days|weeks|months|years|gb|tb|mb|g|t|m|l|h|w|v)(?![\w°²])/gi;
+
+// Only taken with a space between number and unit
+const SINGLE_LETTER_UNITS: Record<string, string> = {
+  g: "g", t: "t", m: "m", l: "l", h: "h", w: "W", v: "V",
+};
+
+function toIsoDate(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function dateRange(start: Date, end: Date): NormalizedDate | null {
+  return isValid(start) && isValid(end) ? { kind: "date", date: toIsoDate(start), end: toIsoDate(end) } : null;
+}
+
+function day(date: Date): NormalizedDate | null {
+  return dateRange(date, date);
+}
+
+// Full names and abbreviations of at least three letters ("sept" too)
+function monthIndex(word: string): number {
+  const lower = word.toLowerCase();
+  return lower.length < 3 ? -1 : MONTHS.findIndex((name) => name.startsWith(lower));
+}
+
+// Two-digit years are read as the nearest one in the past century or next 50 years
+function fullYear(year: string, reference: Date): number {
+  if (year.length !== 2) return Number(year);
+  const century = Math.floor(reference.getFullYear() / 100) * 100;
+  const candidate = century + Number(year);
+  return candidate > reference.getFullYear() + 50 ? candidate - 100 : candidate;
+}
+
+function calendarDay(year: number, month: number, date: number): NormalizedDate | null {
+  const value = new Date(year, month, date);
+  // new Date rolls 31 April over into May; such dates are not real
+  return value.getMonth() === month && value.getDate() === date ? day(value) : null;
+}
+
+// Parses "1,234.56", "1.234,56", "1 234" and "1.2"; a lone separator followed
+// by exactly three digits is read as a thousands separator only when it is a comma
+export function parseNumber(text: string): number | null {
+  const cleaned = text.replace(/[\s ']/g, "");
+  if (!/^-?\d[\d,.]*$/.test(cleaned)) return null;
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  let normalized: string;
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    const decimal = lastComma > lastDot ? "," : ".";
+    const thousands = decimal === "," ? "." : ",";
+    normalized = cleaned.split(thousands).join("").replace(decimal, ".");
+  } else if (lastComma !== -1) {
+    const groups = cleaned.split(",");
+    const isThousands = groups.length > 2 || groups[1].length === 3;
+    normalized = isThousands ? groups.join("") : groups.join(".");
+  } else if ((cleaned.match(/\./g) || []).length > 1) {
+    normalized = cleaned.split(".").join("");
+  } else {
+    normalized = cleaned;
+  }
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Resolves absolute dates ("5 May 2024", "2024-07-01", "12/31/2024"), periods
+// ("May 2024", "Q3 2024", "2024") and relative ones ("next Friday", "in 3
+// days") against the reference date. Periods keep their last day in `end`.
+export function normalizeDate(text: string, reference: Date): NormalizedDate | null {
+  const value = text.trim().toLowerCase().replace(/[.,]+$/, "").replace(/\s+/g, " ");
+  let match: RegExpMatchArray | null;
+
+  if ((match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:t[\d:.]+z?)?$/))) {
+    return calendarDay(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  // Slashes are month first unless the first number cannot be a month; dots are day first
+  if ((match = value.match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{2}|\d{4})$/))) {
+    const [first, second] = [Number(match[1]), Number(match[3])];
+    const year = fullYear(match[4], reference);
+    const dayFirst = match[2] === "." || first > 12;
+    return dayFirst ? calendarDay(year, second - 1, first) : calendarDay(year, first - 1, second);
+  }
+  // 5 May 2024, 5th of May, 2024
+  if ((match = value.match(/^(\d{1,2})(?:st|nd|rd|th)?(?: of)? ([a-z]{3,9}),?(?: (\d{2}|\d{4}))?$/))) {
+    const month = monthIndex(match[2]);
+    const year = match[3] ? fullYear(match[3], reference) : reference.getFullYear();
+    return month === -1 ? null : calendarDay(year, month, Number(match[1]));
+  }
+  // May 5, 2024 / March 3rd
+  if ((match = value.match(/^([a-z]{3,9}) (\d{1,2})(?:st|nd|rd|th)?,?(?: (\d{2}|\d{4}))?$/))) {
+    const month = monthIndex(match[1]);
+    const year = match[3] ? fullYear(match[3], reference) : reference.getFullYear();
+    return month === -1 ? null : calendarDay(year, month, Number(match[2]));
+  }
+  // May 2024 / May
+  if ((match = value.match(/^([a-z]{3,9})(?: (\d{4}))?$/)) && monthIndex(match[1]) !== -1) {
+    const start = new Date(match[2] ? Number(match[2]) : reference.getFullYear(), monthIndex(match[1]), 1);
+    return dateRange(start, endOfMonth(start));
+  }
+  // Q3 2024 / Q3
+  if ((match = value.match(/^q([1-4])(?: (\d{4}))?$/))) {
+    const start = new Date(match[2] ? Number(match[2]) : reference.getFullYear(), (Number(match[1]) - 1) * 3, 1);
+    return dateRange(start, endOfQuarter(start));
+  }
+  if ((match = value.match(/^(?:fy ?)?(\d{4})$/)) && Number(match[1]) >= 1900 && Number(match[1]) <= 2100) {
+    const start = new Date(Number(match[1]), 0, 1);
+    return dateRange(start, endOfYear(start));
+  }
+
+  if (value === "today") return day(reference);
+  if (value === "tomorrow") return day(addDays(reference, 1));
+  if (value === "yesterday") return day(addDays(reference, -1));
+
+  // Friday, next Friday, last Friday, this Friday
+  if ((match = value.match(/^(?:(next|last|this) )?([a-z]+day)$/)) && WEEKDAYS.includes(match[2])) {
+    const target = WEEKDAYS.indexOf(match[2]);
+    const current = reference.getDay();
+    if (match[1] === "last") {
+      return day(addDays(reference, -(((current - target + 6) % 7) + 1)));
+    }
+    // "next Friday" said on a Friday is a week away; a bare "Friday" is the coming one
+    const ahead = (target - current + 7) % 7;
+    return day(addDays(reference, match[1] === "next" && ahead === 0 ? 7 : ahead));
+  }
+  // next week, last month, this year
+  if ((match = value.match(/^(next|last|this) (week|month|quarter|year)$/))) {
+    const step = match[1] === "next" ? 1 : match[1] === "last" ? -1 : 0;
+    switch (match[2]) {
+      case "week": {
+        const start = startOfWeek(addWeeks(reference, step), { weekStartsOn: 1 });
+        return dateRange(start, endOfWeek(start, { weekStartsOn: 1 }));
+      }
+      case "month": {
+        const start = startOfMonth(addMonths(reference, step));
+        return dateRange(start, endOfMonth(start));
+      }
+      case "quarter": {
+        const start = startOfQuarter(addMonths(reference, step * 3));
+        return dateRange(start, endOfQuarter(start));
+      }
+      default: {
+        const start = startOfYear(addYears(reference, step));
+        return dateRange(start, endOfYear(start));
+      }
+    }
+  }
+  // in 3 days, 2 weeks ago
+  if ((match = value.match(/^(?:in (\d+) (day|week|month|year)s?|(\d+) (day|week|month|year)s? ago)$/))) {
+    const count = Number(match[1] ?? match[3]) * (match[1] ? 1 : -1);
+    const unit = match[2] ?? match[4];
+    const shift = unit === "day" ? addDays : unit === "week" ? addWeeks : unit === "month" ? addMonths : addYears;
+    return day(shift(reference, count));
+  }
+
+  return null;
+}
+
+// "$1.2m", "€3,400", "1.000 €", "250 USD", "EUR 5.000,50", "10,000 dollars". Amounts
+// without a currency are not money.
+export function normalizeMoney(text: string): NormalizedMoney | null {
+  let rest = text.trim().replace(/\.$/, "");
+  let currency: string | null = null;
+
+  const symbol = CURRENCY_SYMBOLS.find(([s]) => rest.startsWith(s) || rest.startsWith(`-${s}`) || rest.endsWith(s));
+  if (symbol) {
+    currency = symbol[1];
+    rest = rest.startsWith(`-${symbol[0]}`)
+      ? `-${rest.slice(symbol[0].length + 1)}`
+      : rest.startsWith(symbol[0]) ? rest.slice(symbol[0].length) : rest.slice(0, -symbol[0].length);
+  }
+  const code = rest.match(/^([A-Za-z]{3})\s+|\s*\b([A-Za-z]{3})$/);
+  if (!currency && code && CURRENCY_CODES.has((code[1] ?? code[2]).toUpperCase())) {
+    currency = (code[1] ?? code[2]).toUpperCase();
+    rest = rest.replace(code[0], "");
+  }
+  const word = rest.match(/\s*([a-z]+)$/i);
+  if (!currency && word && CURRENCY_WORDS[word[1].toLowerCase()]) {
+    currency = CURRENCY_WORDS[word[1].toLowerCase()];
+    rest = rest.slice(0, -word[0].length);
+  }
+  if (!currency) return null;
+
+  const match = rest.trim().match(/^(-?[\d][\d,.\s]*?)\s*([a-z]+)?$/i);
+  if (!match) return null;
+  // Amounts are not written to a thousandth, so a lone dot before three
+  // digits groups thousands: "1.000 €" is a thousand euros, "$1.500m" is not
+  const digits = match[1].trim();
+  const grouped = !match[2] && /^-?[1-9]\d{0,2}\.\d{3}$/.test(digits);
+  const number = parseNumber(grouped ? digits.replace(".", "") : digits);
+  const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : 1;
+  if (number === null || multiplier === undefined) return null;
+
+  return { kind: "money", amount: Math.round(number * multiplier * 100) / 100, currency };
+}
+
+// "15%", "2.5 kg", "12 per cent"
+export function normalizeQuantity(text: string): NormalizedQuantity | null {
+  const match = text.trim().match(/^(-?\d(?:[\d,.\s]*\d)?)\s?([^\d\s].*)$/);
+  if (!match) return null;
+  const unit = UNITS[match[2].toLowerCase().replace(/\.$/, "")];
+  const value = parseNumber(match[1]);
+  return unit && value !== null ? { kind: "quantity", value, unit } : null;
+}
+
+// Percentages and measurements in the text, as `percentage` and `quantity` entities
+export function findQuantities(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const seen = new Set<string>();
+  let match: RegExpExecArray | null;
+  UNIT_PATTERN.lastIndex = 0;
+
+  while ((match = UNIT_PATTERN.exec(text)) !== null) {
+    const [, number, space, unit] = match;
+    // "5 m" is five metres, "5m" more likely five million
+    const single = SINGLE_LETTER_UNITS[unit.toLowerCase()];
+    if (single && !space) continue;
+    const raw = `${number}${space}${unit}`;
+    const normalized = single ? { kind: "quantity" as const, value: parseNumber(number)!, unit: single } : normalizeQuantity(raw);
+    if (!normalized || seen.has(raw.toLowerCase())) continue;
+    seen.add(raw.toLowerCase());
+    entities.push({
+      type: normalized.unit === "%" ? "percentage" : "quantity",
+      text: raw,
+      confidence: 0.85,
+      normalized,
+    });
+  }
+  return entities;
+}
+
+// "USD 10,000", "EUR 5.000,50" or "250 CHF": amounts with an ISO code, which
+// compromise does not tag as money
+const CODED_AMOUNT_PATTERN =
+  /(?:^|[^\w.,])(([A-Z]{3}) ?(-?\d(?:[\d,.]*\d)?(?: ?(?:thousand|million|billion|trillion|bn|mn|k)\b)?)|(-?\d(?:[\d,.]*\d)?) ?([A-Z]{3}))(?!\w)/g;
+
+// Amounts written with an ISO currency code before or after them, as `money` entities
+export function findCodedAmounts(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const seen = new Set<string>();
+  let match: RegExpExecArray | null;
+  CODED_AMOUNT_PATTERN.lastIndex = 0;
+
+  while ((match = CODED_AMOUNT_PATTERN.exec(text)) !== null) {
+    const [, written, codeBefore, numberAfter, numberBefore, codeAfter] = match;
+    const code = codeBefore ?? codeAfter;
+    if (!CURRENCY_CODES.has(code) || seen.has(written)) continue;
+    const normalized = normalizeMoney(codeBefore ? `${code} ${numberAfter}` : `${numberBefore} ${code}`);
+    if (!normalized) continue;
+    seen.add(written);
+    entities.push({ type: "money", text: written, confidence: 0.9, normalized });
+  }
+  return entities;
+}
+
+// Adds the normalized value to dates, amounts and quantities that can be read
+export function normalizeEntities(entities: ExtractedEntity[], reference: Date): ExtractedEntity[] {
+  return entities.map((entity) => {
+    if (entity.normalized) return entity;
+    const normalized =
+      entity.type === "date" ? normalizeDate(entity.text, reference) :
+      entity.type === "money" ? normalizeMoney(entity.text) :
+      entity.type === "percentage" || entity.type === "quantity" ? normalizeQuantity(entity.text) :
+      null;
+    return normalized ? { ...entity, normalized } : entity;
+  });
+}
+
+// Reads search queries that ask for a range of values instead of text:
+// "amount > 10,000", "amount between 500 and 1000 EUR", "dates in Q3 2024",
+// "date before 2024-06-01", "percentage >= 20". Dates are resolved against `now`.
+export function parseValueFilter(query: string, now: Date = new Date()): EntityValueFilter | null {
+  const filter = readValueFilter(query, now);
+  // A filter without bounds would match every value of its kind
+  return filter && hasBounds(filter) ? filter : null;
+}
+
+function hasBounds(filter: EntityValueFilter): boolean {
+  if (filter.kind === "date") return !!(filter.from || filter.to);
+  return [filter.min, filter.max].some((bound) => bound !== undefined && Number.isFinite(bound));
+}
+
+function readValueFilter(query: string, now: Date): EntityValueFilter | null {
+  const value = query.trim().replace(/\s+/g, " ");
+  let match: RegExpMatchArray | null;
+
+  const amount = (text: string) => {
+    const money = normalizeMoney(text);
+    if (money) return { amount: money.amount, currency: money.currency };
+    const number = text.match(/^(-?[\d][\d,.\s]*?)\s*([a-z]+)?$/i);
+    const parsed = number && parseNumber(number[1]);
+    const multiplier = number?.[2] ? MULTIPLIERS[number[2].toLowerCase()] : 1;
+    return parsed !== null && parsed !== undefined && multiplier !== undefined
+      ? { amount: parsed * multiplier, currency: undefined }
+      : null;
+  };
+
+  if ((match = value.match(/^(amounts?|money|percentages?|percent) between (.+) and (.+)$/i))) {
+    const [min, max] = [amount(match[2]), amount(match[3])];
+    if (!min || !max) return null;
+    return /^perc/i.test(match[1])
+      ? { kind: "quantity", unit: "%", min: min.amount, max: max.amount }
+      : { kind: "money", currency: max.currency ?? min.currency, min: min.amount, max: max.amount };
+  }
+  if ((match = value.match(/^(amounts?|money|percentages?|percent) ?(>=|<=|>|<|=) ?(.+)$/i))) {
+    const bound = amount(match[3]);
+    if (!bound) return null;
+    const range =
+      match[2] === "=" ? { min: bound.amount, max: bound.amount } :
+      match[2].startsWith(">") ? { min: bound.amount, exclusiveMin: match[2] === ">" } :
+      { max: bound.amount, exclusiveMax: match[2] === "<" };
+    return /^perc/i.test(match[1])
+      ? { kind: "quantity", unit: "%", ...range }
+      : { kind: "money", currency: bound.currency, ...range };
+  }
+  if ((match = value.match(/^dates? (in|during|on|before|after|from) (.+)$/i))) {
+    const period = normalizeDate(match[2], now);
+    if (!period) return null;
+    switch (match[1].toLowerCase()) {
+      case "before":
+        return { kind: "date", to: toIsoDate(addDays(new Date(`${period.date}T00:00:00`), -1)) };
+      case "after":
+        return { kind: "date", from: toIsoDate(addDays(new Date(`${period.end}T00:00:00`), 1)) };
+      case "from":
+        return { kind: "date", from: period.date };
+      default:
+        return { kind: "date", from: period.date, to: period.end };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+import { createRequire } from "module";
+import { createWorker, OEM, type Worker } from "tesseract.js";
+
+const require = createRequire(import.meta.url);
+
+// Language data ships with the @tesseract.js-data package, so OCR never downloads anything
+const english: { code: string; langPath: string; gzip: boolean } = require("@tesseract.js-data/eng");
+
+const WORKER_IDLE_MS = 5 * 60 * 1000;
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0..1
+}
+
+let workerPromise: Promise<Worker> | null = null;
+let idleTimer: NodeJS.Timeout | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker(english.code, OEM.LSTM_ONLY, {
+      langPath: english.langPath,
+      gzip: english.gzip,
+      cacheMethod: "none",
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+// The worker holds the language model in memory; release it when OCR goes quiet
+function scheduleIdleShutdown() {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = setTimeout(async () => {
+    const pending = workerPromise;
+    workerPromise = null;
+    idleTimer = null;
+    if (pending) {
+      const worker = await pending.catch(() => null);
+      await worker?.terminate();
+    }
+  }, WORKER_IDLE_MS);
+  idleTimer.unref();
+}
+
+export async function recognizeImage(image: Buffer): Promise<OcrResult> {
+  const worker = await getWorker();
+  try {
+    const { data } = await worker.recognize(image);
+    return {
+      text: data.text.trim(),
+      confidence: Math.max(0, Math.min(1, data.confidence / 100)),
+    };
+  } finally {
+    scheduleIdleShutdown();
+  }
+}
+
+// A page needs OCR when it has (almost) no text layer, or when the text layer
+// is mostly replacement, private-use or control characters from broken font maps.
+export function needsOcr(text: string): boolean {
+  const visible = text.replace(/\s+/g, "");
+  if (visible.length < 20) return true;
+
+  const garbage = visible.match(/[\uFFFD\uE000-\uF8FF\u0000-\u001F]/g)?.length || 0;
+  if (garbage / visible.length > 0.1) return true;
+
+  return countWordChars(visible) / visible.length < 0.4;
+}
+
+// Built with the RegExp constructor because the tsconfig target predates the "u" flag
+const WORD_CHAR = new RegExp("[\\p{L}\\p{N}]", "gu");
+
+export function countWordChars(text: string): number {
+  return text.match(WORD_CHAR)?.length || 0;
+}
@@ -0,0 +1,63 @@
+import crypto from "crypto";
+
+// Passwords for encrypted documents travel to whichever worker claims the
+// processing job inside its payload, sealed with AES-256-GCM under a key derived
+// from SESSION_SECRET, which every server shares. A sealed password opens only
+// for its document version and until it expires, and the pipeline removes it
+// from the job once the job no longer needs it. It never reaches the logs.
+const PASSWORD_TTL_MS = 15 * 60 * 1000;
+
+export interface SealedPassword {
+  iv: string;
+  tag: string;
+  data: string;
+  expiresAt: number;
+}
+
+let sealingKey: Buffer | null = null;
+
+// Without SESSION_SECRET the key is random, so only the server that sealed a
+// password can open it
+function key(): Buffer {
+  if (!sealingKey) {
+    const secret = process.env.SESSION_SECRET;
+    sealingKey = secret ? crypto.scryptSync(secret, "document-passwords", 32) : crypto.randomBytes(32);
+  }
+  return sealingKey;
+}
+
+function context(documentId: string, version: number, expiresAt: number): Buffer {
+  return Buffer.from(`${documentId}:${version}:${expiresAt}`);
+}
+
+export function sealPassword(documentId: string, version: number, password: string): SealedPassword {
+  const expiresAt = Date.now() + PASSWORD_TTL_MS;
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key(), iv);
+  cipher.setAAD(context(documentId, version, expiresAt));
+  const data = Buffer.concat([cipher.update(password, "utf8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+    expiresAt,
+  };
+}
+
+// Undefined when there is no password, it has expired or it was sealed for
+// another version or with another key
+export function openPassword(
+  documentId: string,
+  version: number,
+  sealed: SealedPassword | undefined
+): string | undefined {
+  if (!sealed || sealed.expiresAt < Date.now()) return undefined;
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key(), Buffer.from(sealed.iv, "base64"));
+    decipher.setAAD(context(documentId, version, sealed.expiresAt));
+    decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(sealed.data, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    return undefined;
+  }
+}
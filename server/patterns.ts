@@ -0,0 +1,261 @@
+import type { ExtractedEntity } from "@shared/mongo-schema";
+
+// Contact details and identifiers found by pattern rather than by compromise.
+// Every candidate is validated (check digits, lengths, surrounding labels) so
+// that ordinary numbers and capitalised words are not reported.
+
+interface PatternRule {
+  type: string;
+  confidence: number;
+  pattern: RegExp;
+  // Returns the text to report, or null to reject the match
+  validate?: (match: RegExpExecArray, text: string) => string | null;
+}
+
+// IBAN lengths by country (ISO 13616 registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29,
+  ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28,
+  HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20,
+  LB: 28, LC: 32, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19,
+  MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29,
+  RO: 24, RS: 22, SA: 24, SC: 31, SE: 24, SI: 19, SK: 24, SM: 27, ST: 25, SV: 28,
+  TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20,
+};
+
+// EU VAT number formats, after the country prefix
+const VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-Z0-9]{2}\d{9}$/,
+  GB: /^(\d{9}|\d{12})$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^\d[A-Z0-9+*]\d{5}[A-Z]{1,2}$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+const US_STATES = new Set(
+  ("AL AK AZ AR CA CO CT DE DC FL GA HI ID IL IN IA KS KY LA ME MD MA MI MN MS MO MT NE NV NH NJ " +
+    "NM NY NC ND OH OK OR PA RI SC SD TN TX UT VT VA WA WV WI WY PR").split(" ")
+);
+
+// ISO 3166-1 alpha-2 country codes, and XK (Kosovo), which banks use too
+const COUNTRY_CODES = new Set(
+  (
+    "AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL " +
+    "BM BN BO BQ BR BS BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV " +
+    "CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD " +
+    "GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM " +
+    "IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK " +
+    "LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW " +
+    "MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR " +
+    "PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS " +
+    "ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY " +
+    "UZ VA VC VE VG VI VN VU WF WS XK YE YT ZA ZM ZW"
+  ).split(" ")
+);
+
+// How far before a BIC or EIN its label may appear, in characters
+const LABEL_WINDOW = 30;
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, "");
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 7064 mod 97-10, computed piecewise to stay within integer precision
+function ibanValid(iban: string): boolean {
+  if (IBAN_LENGTHS[iban.slice(0, 2)] !== iban.length) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (let i = 0; i < rearranged.length; i++) {
+    const char = rearranged[i];
+    const value = char >= "A" ? String(char.charCodeAt(0) - 55) : char;
+    remainder = Number(String(remainder) + value) % 97;
+  }
+  return remainder === 1;
+}
+
+function labelledBy(text: string, index: number, label: RegExp): boolean {
+  return label.test(text.slice(Math.max(0, index - LABEL_WINDOW), index));
+}
+
+// Sentence punctuation and closing brackets are not part of a URL
+function trimUrl(url: string): string {
+  let trimmed = url.replace(/[.,;:!?'"]+$/, "");
+  while (trimmed.endsWith(")") && trimmed.split("(").length < trimmed.split(")").length) {
+    trimmed = trimmed.slice(0, -1);
+  }
+  return trimmed;
+}
+
+// Earlier rules claim their text first, so a URL's host is not also an email
+// and the digits of an IBAN are not also a card number.
+const RULES: PatternRule[] = [
+  {
+    type: "url",
+    confidence: 0.95,
+    pattern: /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi,
+    validate: ([url]) => {
+      const trimmed = trimUrl(url);
+      const host = trimmed.replace(/^https?:\/\//i, "").split(/[/?#:]/)[0];
+      return /^[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}$/i.test(host) ? trimmed : null;
+    },
+  },
+  {
+    type: "email",
+    confidence: 0.95,
+    pattern: /\b[A-Za-z0-9._%+-]+@(?:[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+[A-Za-z]{2,24}\b/g,
+    validate: ([email]) => (email.includes("..") || email.startsWith(".") ? null : email),
+  },
+  {
+    type: "iban",
+    confidence: 0.95,
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: ([iban]) => {
+      const compact = iban.replace(/ /g, "");
+      return ibanValid(compact) ? iban : null;
+    },
+  },
+  {
+    // Eight or eleven capitals look like many ordinary words, so a BIC is only
+    // taken when it is labelled as one
+    type: "bic",
+    confidence: 0.85,
+    pattern: /\b[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?\b/g,
+    validate: (match, text) =>
+      COUNTRY_CODES.has(match[0].slice(4, 6)) && labelledBy(text, match.index, /\b(?:BIC|SWIFT)\b/i)
+        ? match[0]
+        : null,
+  },
+  {
+    type: "tax_id",
+    confidence: 0.85,
+    pattern: /\b([A-Z]{2}) ?([A-Z0-9+*]{8,12})\b/g,
+    validate: ([vat, country, number]) => {
+      const format = VAT_FORMATS[country];
+      return format && format.test(number) && /\d{6}/.test(number) ? vat : null;
+    },
+  },
+  {
+    // Any nine digits written as 12-3456789 could be an EIN; only labelled ones are
+    type: "tax_id",
+    confidence: 0.8,
+    pattern: /\b\d{2}-\d{7}\b/g,
+    validate: (match, text) =>
+      labelledBy(text, match.index, /\b(?:EIN|FEIN|TIN|Tax ID|Employer Identification(?: Number| No\.?)?)\b/i)
+        ? match[0]
+        : null,
+  },
+  {
+    // Amex numbers are grouped 4-6-5, the others in fours
+    type: "card_number",
+    confidence: 0.9,
+    pattern: /\b(?:\d{4}[ -]?\d{6}[ -]?\d{5}|(?:\d{4}[ -]?){3}\d{1,7})\b/g,
+    validate: ([card]) => {
+      const digits = digitsOf(card);
+      return digits.length >= 13 && digits.length <= 19 && /^[2-6]/.test(digits) && luhnValid(digits)
+        ? card
+        : null;
+    },
+  },
+  {
+    // International numbers (+ or 00 and a country code) and North American
+    // numbers written with an area code in parentheses
+    type: "phone",
+    confidence: 0.85,
+    pattern: /(?:\+|\b00)[1-9]\d{0,2}(?:[ .-]?\(?\d{1,4}\)?){2,6}\b|\(\d{3}\) ?\d{3}[ .-]\d{4}\b/g,
+    validate: ([phone]) => {
+      const digits = digitsOf(phone.replace(/^00/, ""));
+      return digits.length >= 8 && digits.length <= 15 ? phone.trim() : null;
+    },
+  },
+  {
+    // UK postcodes
+    type: "postal_code",
+    confidence: 0.8,
+    pattern: /\b(?:[A-Z]{1,2}\d[A-Z\d]?|GIR) ?\d[A-Z]{2}\b/g,
+  },
+  {
+    // Canadian postal codes
+    type: "postal_code",
+    confidence: 0.8,
+    pattern: /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d\b/g,
+  },
+  {
+    // US ZIP codes, which are plain numbers unless they follow a state
+    type: "postal_code",
+    confidence: 0.8,
+    pattern: /\b([A-Z]{2}),? (\d{5}(?:-\d{4})?)\b/g,
+    validate: ([, state, zip]) => (US_STATES.has(state) ? zip : null),
+  },
+];
+
+export function extractPatternEntities(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const seen = new Set<string>();
+  // Characters already taken by an earlier rule are blanked out for later ones
+  let remaining = text;
+
+  for (const rule of RULES) {
+    const claimed: Array<[number, number]> = [];
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(remaining)) !== null) {
+      const value = rule.validate ? rule.validate(match, remaining) : match[0];
+      if (!value) continue;
+      claimed.push([match.index, match.index + match[0].length]);
+
+      const key = `${rule.type}:${value.replace(/[\s.()-]/g, "").toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      entities.push({ type: rule.type, text: value, confidence: rule.confidence });
+    }
+    if (claimed.length > 0) {
+      const parts: string[] = [];
+      let last = 0;
+      for (const [start, end] of claimed) {
+        parts.push(remaining.slice(last, start), " ".repeat(end - start));
+        last = end;
+      }
+      parts.push(remaining.slice(last));
+      remaining = parts.join("");
+    }
+  }
+
+  return entities;
+}
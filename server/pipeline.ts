@@ -0,0 +1,757 @@
+import path from "path";
+import crypto from "crypto";
+import { storage } from "./storage";
+import { jobQueue, type JobHandler } from "./jobQueue";
+import { expandZipArchive, type ArchiveLimits } from "./zip";
+import { blobStore } from "./blobs";
+import { publishDocumentEvent } from "./events";
+import { ProcessingError, classifyError, extractionError } from "./errors";
+import { openPassword, sealPassword } from "./passwords";
+import {
+  generateDocumentSummary,
+  extractKeywords,
+  isGeminiConfigured,
+} from "./gemini";
+import {
+  extractEntities,
+  locateEntities,
+  extractTablesFromText,
+  getTextStatistics,
+  extractKeywordsFromText,
+} from "./nlp";
+import { normalizeEntities } from "./normalize";
+import { updateEntityRegistry } from "./entityRegistry";
+import { findCustomEntities, groupCustomEntities } from "./gazetteer";
+import type { VersionUpload } from "./versions";
+import {
+  detectFormat,
+  getExtractor,
+  type ExtractedAttachment,
+  type ExtractedPage,
+} from "./extractors";
+import { isSupportedUpload, mimeTypeFromName } from "@shared/file-types";
+import { ENTITY_TYPE_KEYS } from "@shared/entities";
+import {
+  VERSIONED_FIELDS,
+  type Batch,
+  type Document,
+  type DocumentVersion,
+  type DocumentAnalysis,
+  type ExtractedEntity,
+  type DocumentStructure,
+  type DuplicatePolicy,
+  type Job,
+  type ProcessingOptions,
+  type ProcessingEvent,
+  type ProcessingStage,
+} from "@shared/mongo-schema";
+
+// Pages are joined with a blank line; page offsets index into the joined text
+const PAGE_SEPARATOR = "\n\n";
+
+export const PROCESS_JOB = "process";
+
+const ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 1000,
+  maxTotalBytes: 1024 * 1024 * 1024,
+  maxEntryBytes: 100 * 1024 * 1024, // same as the upload limit for a single file
+  maxCompressionRatio: 200,
+};
+
+// The file fields of a version, in the shape of the Document fields they stand for
+export function versionFields(record: DocumentVersion): Partial<Document> {
+  return Object.fromEntries(
+    VERSIONED_FIELDS.filter((field) => record[field] !== undefined).map((field) => [field, record[field]])
+  );
+}
+
+// The statuses a processing job may write over; a cancelled document is left alone
+const IN_FLIGHT_STATUSES = ["pending", "processing"];
+
+// Jobs queued before versioning carry no version and process the current one
+function jobVersion(job: Job, doc: Document | null): number {
+  return job.payload?.version ?? doc?.currentVersion ?? 1;
+}
+
+// The sealed password of an encrypted file is removed as soon as the job has
+// no further use for it
+async function removePassword(job: Job): Promise<void> {
+  if (job.payload?.password) await storage.removeJobPassword(job._id.toString());
+}
+
+export const processDocumentJob: JobHandler = {
+  async run(job: Job, signal: AbortSignal) {
+    const doc = await storage.getDocument(job.documentId);
+    if (!doc) {
+      throw new Error(`Document ${job.documentId} no longer exists`);
+    }
+
+    const version = jobVersion(job, doc);
+    const record = await storage.getDocumentVersion(job.documentId, version);
+    const source: Document = record ? { ...doc, ...versionFields(record) } : doc;
+
+    if (!(await blobStore.exists(source.filename))) {
+      throw new ProcessingError("storage", "The original file is missing from storage.", {
+        retryable: false,
+        cause: new Error(`File not found for document ${job.documentId}`),
+      });
+    }
+
+    const password = openPassword(job.documentId, version, job.payload?.password);
+    try {
+      await processDocument(source, version, job.payload?.options || {}, signal, job.attempts, password);
+      await removePassword(job);
+    } catch (error) {
+      if (!(error instanceof ProcessingError && error.reason === "encrypted")) throw error;
+
+      // An encrypted file waits for the user's password instead of failing
+      await removePassword(job);
+      const failure = classifyError(error);
+      const waiting = await storage.updateVersionState(job.documentId, version, {
+        status: "needs_password",
+        processingProgress: 0,
+        failure,
+      }, IN_FLIGHT_STATUSES);
+      if (!waiting) return;
+      publishDocumentEvent(job.userId, {
+        type: "needs_password",
+        documentId: job.documentId,
+        version,
+        status: "needs_password",
+        processingProgress: 0,
+        error: failure.message,
+      });
+      console.log(`[${job.documentId}] Waiting for the password of version ${version}.`);
+    }
+  },
+
+  async onFailure(job: Job, error: unknown, willRetry: boolean) {
+    if (!willRetry) await removePassword(job);
+    const version = jobVersion(job, await storage.getDocument(job.documentId));
+    const failure = classifyError(error);
+    const updates = willRetry
+      ? { status: "pending", processingProgress: 0 }
+      : { status: "error", processingProgress: -1, failure };
+    await storage.updateVersionState(job.documentId, version, updates);
+    publishDocumentEvent(job.userId, {
+      type: willRetry ? "queued" : "error",
+      documentId: job.documentId,
+      version,
+      status: updates.status,
+      processingProgress: updates.processingProgress,
+      error: failure.message,
+    });
+  },
+
+  // Encrypted, corrupt and empty files fail the same way every time
+  shouldRetry(error: unknown) {
+    return classifyError(error).retryable;
+  },
+};
+
+// Retries and orphan recovery reuse the options the document was last processed
+// with. Unless told otherwise, the current version is the one processed.
+// `password` opens an encrypted file and is sealed into the job.
+export async function enqueueDocumentProcessing(
+  doc: Document,
+  options: ProcessingOptions = doc.processingOptions || {},
+  version: number = doc.currentVersion ?? 1,
+  password?: string
+): Promise<Job> {
+  const documentId = (doc as any)._id.toString();
+  await storage.updateVersionState(documentId, version, {
+    status: "pending",
+    processingProgress: 0,
+    processingOptions: options,
+    failure: undefined,
+  });
+  const payload = password === undefined
+    ? { options, version }
+    : { options, version, password: sealPassword(documentId, version, password) };
+  const job = await jobQueue.enqueue(PROCESS_JOB, documentId, doc.userId, payload);
+  publishDocumentEvent(doc.userId, {
+    type: "queued",
+    documentId,
+    version,
+    status: "pending",
+    processingProgress: 0,
+  });
+  return job;
+}
+
+// Documents left pending or processing without a live job (uploaded before the
+// queue existed, or created just before a crash) are put back on the queue.
+export async function requeueOrphanedDocuments(): Promise<void> {
+  const candidates = await storage.getDocumentsByStatus(["pending", "processing"]);
+  let requeued = 0;
+
+  for (const doc of candidates) {
+    const documentId = (doc as any)._id.toString();
+    const activeJob = await storage.getActiveJob(documentId, PROCESS_JOB);
+    if (!activeJob) {
+      await enqueueDocumentProcessing(doc);
+      requeued++;
+    }
+  }
+
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} orphaned document(s) for processing.`);
+  }
+}
+
+export const CUSTOM_ENTITIES_JOB = "custom-entities";
+
+// Applies the owner's current custom entity types to a processed document,
+// using the stored text of its current version instead of processing the file again
+export const customEntitiesJob: JobHandler = {
+  async run(job: Job, signal: AbortSignal) {
+    const doc = await storage.getDocument(job.documentId);
+    // Documents being processed pick up the current types themselves
+    if (!doc || doc.status !== "completed") return;
+
+    const version = doc.currentVersion ?? 1;
+    const [storedPages, customTypes, extractions] = await Promise.all([
+      storage.getPages(job.documentId, version),
+      storage.getCustomEntityTypes(doc.userId),
+      storage.getExtractions(job.documentId, version),
+    ]);
+    const { text, pages } = assemblePages(
+      storedPages.map((page) => ({
+        pageNumber: page.pageNumber,
+        text: page.extractedText || "",
+        extractionMethod: "text" as const,
+      }))
+    );
+    const customEntities = locateEntities(text, findCustomEntities(text, customTypes), pages);
+    signal.throwIfAborted();
+
+    const entitiesExtraction = extractions.find((e) => e.extractionType === "entities");
+    const analysisExtraction = extractions.find((e) => e.extractionType === "analysis");
+    const entities = [
+      ...((entitiesExtraction?.data as ExtractedEntity[] | undefined) || []).filter((e) => e.type !== "custom"),
+      ...customEntities,
+    ];
+    if (entitiesExtraction) {
+      await storage.updateExtraction((entitiesExtraction as any)._id.toString(), entities);
+    } else if (entities.length > 0) {
+      await storage.createExtraction({ documentId: job.documentId, version, extractionType: "entities", data: entities });
+    }
+    if (analysisExtraction) {
+      const analysis: DocumentAnalysis = { ...analysisExtraction.data, customEntities: groupCustomEntities(customEntities) };
+      await storage.updateExtraction((analysisExtraction as any)._id.toString(), analysis);
+    }
+
+    publishDocumentEvent(doc.userId, {
+      type: "updated",
+      documentId: job.documentId,
+      version,
+      status: doc.status,
+    });
+    console.log(`[${job.documentId}] Applied custom entity types: ${customEntities.length} match(es).`);
+  },
+};
+
+// Queues every processed document of the user for its custom entities to be
+// found again, after a type was added, changed or removed
+export async function enqueueCustomEntityRefresh(userId: string): Promise<number> {
+  const documents = await storage.getDocuments(userId);
+  const processed = documents.filter((doc) => doc.status === "completed");
+  for (const doc of processed) {
+    await jobQueue.enqueue(CUSTOM_ENTITIES_JOB, (doc as any)._id.toString(), userId);
+  }
+  return processed.length;
+}
+
+function definedValues(values: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+// Relative dates in a document ("next Friday") are read from the day it was
+// written when the file records it, otherwise from the day it was uploaded
+function documentDate(doc: Document, metadata: Record<string, any>): Date {
+  const written = metadata.pdf?.creationDate ?? metadata.email?.date;
+  const date = written ? new Date(written) : new Date(doc.uploadDate);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+function assemblePages(pageResults: ExtractedPage[]) {
+  let text = "";
+  const pages = pageResults.map(({ pageNumber, text: pageText, ...details }, index) => {
+    if (index > 0) text += PAGE_SEPARATOR;
+    const charStart = text.length;
+    text += pageText;
+    return { pageNumber, extractedText: pageText, charStart, charEnd: text.length, ...details };
+  });
+  return { text, pages };
+}
+
+export function hashContent(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+export function uniqueUploadName(originalName: string): string {
+  const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+  return uniqueSuffix + path.extname(originalName);
+}
+
+// Attachments become documents of their own, linked to the email they came
+// from. Ones created by an earlier attempt are left alone on retry.
+async function createAttachmentDocuments(
+  parent: Document,
+  attachments: ExtractedAttachment[]
+): Promise<number> {
+  const parentId = (parent as any)._id.toString();
+  const existing = await storage.getChildDocuments(parentId);
+  let created = 0;
+
+  for (const attachment of attachments) {
+    const size = attachment.content.length;
+    if (existing.some((child) => child.originalName === attachment.filename && child.fileSize === size)) {
+      continue;
+    }
+    const filename = uniqueUploadName(attachment.filename);
+    await blobStore.put(filename, attachment.content, attachment.contentType);
+
+    const child = await storage.createDocument({
+      userId: parent.userId,
+      parentId,
+      filename,
+      originalName: attachment.filename,
+      mimeType: attachment.contentType,
+      fileSize: size,
+      contentHash: hashContent(attachment.content),
+      status: "pending",
+      uploadDate: new Date(),
+    });
+    await enqueueDocumentProcessing(child, parent.processingOptions || {});
+    created++;
+  }
+  return created;
+}
+
+// Expands an uploaded ZIP archive into one queued document per supported
+// file. Entries whose content was uploaded before are not made into documents
+// but listed as duplicates; under the "new" policy they are also returned in
+// `versions`, for the caller to add to the existing documents. Throws without
+// creating anything if the archive is invalid or too large.
+export async function createArchiveBatch(
+  userId: string,
+  archive: Buffer,
+  archiveName: string,
+  duplicatePolicy: DuplicatePolicy
+): Promise<{ batch: Batch; documents: Document[]; versions: { document: Document; upload: VersionUpload }[] }> {
+  const stored: { path: string; filename: string; size: number; contentHash: string }[] = [];
+  const duplicates: Batch["duplicates"] = [];
+  const versions: { document: Document; upload: VersionUpload }[] = [];
+  const seen = new Map<string, string>();
+
+  let expanded;
+  try {
+    expanded = await expandZipArchive(
+      archive,
+      ARCHIVE_LIMITS,
+      (entryPath) => isSupportedUpload(path.posix.basename(entryPath), ""),
+      async (entryPath, content) => {
+        const hash = hashContent(content);
+        const existing = await storage.findDocumentByHash(userId, hash);
+        const duplicateOf = existing ? (existing as any)._id.toString() : seen.get(hash);
+        if (duplicateOf) {
+          duplicates.push({ path: entryPath, documentId: duplicateOf });
+          if (existing && duplicatePolicy === "new") {
+            versions.push({
+              document: existing,
+              upload: {
+                data: content,
+                originalName: path.posix.basename(entryPath),
+                mimeType: mimeTypeFromName(entryPath),
+                contentHash: hash,
+              },
+            });
+          }
+          return;
+        }
+        const filename = uniqueUploadName(entryPath);
+        await blobStore.put(filename, content, mimeTypeFromName(entryPath));
+        stored.push({ path: entryPath, filename, size: content.length, contentHash: hash });
+        // Later copies within the same archive point at the first one once it has a document
+        seen.set(hash, filename);
+      }
+    );
+  } catch (error) {
+    await Promise.all(stored.map((file) => blobStore.delete(file.filename)));
+    throw error;
+  }
+  if (expanded.extracted.length === 0) {
+    throw new Error("The archive contains no supported documents");
+  }
+
+  const batch = await storage.createBatch({
+    userId,
+    archiveName,
+    documentCount: stored.length,
+    skipped: expanded.skipped,
+  });
+  const batchId = (batch as any)._id.toString();
+
+  const documents: Document[] = [];
+  const documentIds = new Map<string, string>();
+  for (const file of stored) {
+    const folder = path.posix.dirname(file.path);
+    const doc = await storage.createDocument({
+      userId,
+      batchId,
+      folder: folder === "." ? "" : folder,
+      filename: file.filename,
+      originalName: path.posix.basename(file.path),
+      mimeType: mimeTypeFromName(file.path),
+      fileSize: file.size,
+      contentHash: file.contentHash,
+      status: "pending",
+      uploadDate: new Date(),
+    });
+    documentIds.set(file.filename, (doc as any)._id.toString());
+    await enqueueDocumentProcessing(doc);
+    documents.push(doc);
+  }
+
+  // Duplicates of other entries in this archive were recorded by blob key
+  batch.duplicates = duplicates.map((duplicate) => ({
+    ...duplicate,
+    documentId: documentIds.get(duplicate.documentId) ?? duplicate.documentId,
+  }));
+  await storage.updateBatch(batchId, { duplicates: batch.duplicates });
+  console.log(
+    `Batch ${batchId}: queued ${documents.length} document(s) from ${archiveName}` +
+      (duplicates.length > 0 ? `, ${duplicates.length} duplicate(s) skipped` : "")
+  );
+  return { batch, documents, versions };
+}
+
+interface StageContext {
+  documentId: string;
+  version: number;
+  attempt: number;
+  signal?: AbortSignal;
+}
+
+// Runs one stage and records its timing and outcome on the document's
+// processing timeline. Errors are recorded and rethrown.
+async function recordStage<T>(
+  context: StageContext,
+  stage: ProcessingStage,
+  run: () => Promise<T>,
+  details?: (result: T) => Record<string, unknown>
+): Promise<T> {
+  const { signal, ...ids } = context;
+  const startedAt = new Date();
+  const event = await storage.createProcessingEvent({ ...ids, stage, outcome: "running", startedAt });
+  const finish = async (updates: Partial<ProcessingEvent>) => {
+    const endedAt = new Date();
+    await storage.updateProcessingEvent((event as any)._id.toString(), {
+      ...updates,
+      endedAt,
+      durationMs: endedAt.getTime() - startedAt.getTime(),
+    });
+  };
+
+  try {
+    const result = await run();
+    await finish({ outcome: "success", details: details?.(result) });
+    return result;
+  } catch (error) {
+    // Timeouts abort the signal too, but they are failures rather than
+    // cancellations. A cancellation noticed by a guarded write throws an
+    // AbortError without the signal being aborted.
+    const cancelled =
+      (signal?.aborted && signal.reason?.name !== "TimeoutError") ||
+      (error as { name?: string } | null)?.name === "AbortError";
+    const failure = classifyError(error);
+    await finish({
+      outcome: cancelled ? "cancelled" : "error",
+      error: failure.detail ?? failure.message,
+      reason: cancelled ? undefined : failure.reason,
+    });
+    throw error;
+  }
+}
+
+// `doc` carries the file fields of the version being processed
+async function processDocument(
+  doc: Document,
+  version: number,
+  options: ProcessingOptions,
+  signal: AbortSignal,
+  attempt: number,
+  password?: string
+): Promise<void> {
+  const documentId = (doc as any)._id.toString();
+  const timeline: StageContext = { documentId, version, attempt, signal };
+  let stage: ProcessingStage = "parse";
+  // Saves progress and pushes it to the owner's browser. Passing a stage
+  // marks the start of that stage. Processing stops once the document has
+  // been cancelled, which another server's worker only hears of on its next
+  // heartbeat.
+  const update = async (updates: Partial<Document>, nextStage?: ProcessingStage) => {
+    if (!(await storage.updateVersionState(documentId, version, updates, IN_FLIGHT_STATUSES))) {
+      throw new DOMException(`Document ${documentId} is no longer being processed`, "AbortError");
+    }
+    if (nextStage) stage = nextStage;
+    publishDocumentEvent(doc.userId, {
+      type: updates.status === "completed" ? "completed" : nextStage ? "stage" : "progress",
+      documentId,
+      version,
+      status: updates.status ?? "processing",
+      processingProgress: updates.processingProgress,
+      stage,
+    });
+  };
+  console.log(`Starting to process document ${documentId} version ${version} (${doc.filename})`);
+  // Clear output from any earlier, interrupted attempt so retries stay idempotent
+  await storage.deleteProcessingResults(documentId, version);
+  await update({
+    status: "processing",
+    processingProgress: 10,
+  }, "parse");
+  try {
+    const content = await recordStage(timeline, "parse", async () => {
+      const dataBuffer = await blobStore.get(doc.filename);
+      const format = await detectFormat(dataBuffer, doc.originalName, doc.mimeType);
+      if (!format) {
+        throw new ProcessingError("corrupt", "The file's content does not match any supported format.", {
+          cause: new Error(`Unsupported file format: ${doc.originalName}`),
+        });
+      }
+      await storage.updateVersionState(documentId, version, { format }, IN_FLIGHT_STATUSES);
+
+      console.log(`[${documentId}] Extracting ${format} content...`);
+      const extracted = await getExtractor(format)(dataBuffer, {
+        documentId,
+        ocr: options.ocr || "auto",
+        password,
+        signal,
+        onProgress: async (fraction) => {
+          await update({
+            processingProgress: 10 + Math.round(fraction * 25),
+          });
+        },
+      }).catch((error) => {
+        throw extractionError(error);
+      });
+      signal.throwIfAborted();
+
+      // Scans are only useful for their text; other formats may legitimately be empty
+      if ((format === "pdf" || format === "image") && extracted.pages.every((page) => !page.text.trim())) {
+        throw new ProcessingError(
+          "no_text",
+          options.ocr === "never"
+            ? "The file has no text layer and OCR was turned off. Reprocess it with OCR enabled."
+            : "No text was found in the file, even with OCR."
+        );
+      }
+      return { format, ...extracted };
+    }, (extracted) => ({
+      format: extracted.format,
+      pages: extracted.pages.length,
+      attachments: extracted.attachments?.length ?? 0,
+    }));
+    await update({ processingProgress: 35 }, "pages");
+    console.log(`[${documentId}] Content extracted.`);
+
+    if (content.attachments?.length) {
+      const created = await createAttachmentDocuments(doc, content.attachments);
+      console.log(`[${documentId}] Queued ${created} attachment(s) for processing.`);
+    }
+
+    const { text, pages } = assemblePages(content.pages);
+    const pageCount = pages.length || 1;
+
+    await recordStage(timeline, "pages", async () => {
+      console.log(`[${documentId}] Saving ${pages.length} page(s)...`);
+      for (const page of pages) {
+        await storage.createPage({ documentId, version, ...page });
+      }
+      signal.throwIfAborted();
+    }, () => ({ pages: pages.length, characters: text.length }));
+    await update({ processingProgress: 40 }, "nlp");
+    console.log(`[${documentId}] Extracted text saved.`);
+
+    console.log(`[${documentId}] Running NLP tasks...`);
+    const customTypes = await storage.getCustomEntityTypes(doc.userId);
+    const [entities, nlpKeywords, tables, stats] = await recordStage(timeline, "nlp", async () => {
+      const results = await Promise.all([
+        Promise.resolve(extractEntities(text, customTypes)).catch((e) => {
+          console.error(`[${documentId}] Error in extractEntities`, e);
+          return [];
+        }),
+        Promise.resolve(extractKeywordsFromText(text)).catch((e) => {
+          console.error(`[${documentId}] Error in extractKeywordsFromText`, e);
+          return [];
+        }),
+        // Tables from the file's own markup are used as-is; detection only looks
+        // for tables in the text of formats that have no table structure
+        Promise.resolve(
+          content.tables ??
+            (options.tableDetection === false
+              ? []
+              : extractTablesFromText(text).map((t) => ({ ...t, source: "detected" as const })))
+        ).catch((e) => {
+          console.error(`[${documentId}] Error in extractTablesFromText`, e);
+          return [];
+        }),
+        Promise.resolve(getTextStatistics(text)).catch((e) => {
+          console.error(`[${documentId}] Error in getTextStatistics`, e);
+          return { wordCount: 0, characterCount: 0 };
+        }),
+      ]);
+      signal.throwIfAborted();
+      return results;
+    }, ([entities, keywords, tables, stats]) => ({
+      entities: entities.length,
+      keywords: keywords.length,
+      tables: tables.length,
+      words: stats.wordCount,
+    }));
+    await update({ processingProgress: 60 }, "analysis");
+    console.log(`[${documentId}] NLP tasks completed.`);
+
+    const sentences = text
+      .split(/[.!?]+/)
+      .filter((s: string) => s.trim().length > 20)
+      .slice(0, 3);
+    const summary =
+      sentences.join(". ") + (sentences.length > 0 ? "." : "No summary available.");
+
+    // Group entities by type
+    const groupedEntities = Object.fromEntries(
+      Object.values(ENTITY_TYPE_KEYS).map((key) => [key, [] as string[]])
+    ) as DocumentAnalysis["entities"];
+    for (const entity of entities) {
+      const key = ENTITY_TYPE_KEYS[entity.type];
+      if (key) groupedEntities[key].push(entity.text);
+    }
+
+    const analysis: DocumentAnalysis = {
+      summary,
+      keywords: nlpKeywords.slice(0, 15),
+      entities: groupedEntities,
+      customEntities: groupCustomEntities(entities),
+      tables,
+      statistics: {
+        wordCount: stats.wordCount,
+        charCount: stats.characterCount,
+        sentenceCount: (stats as any).sentenceCount || 0,
+        paragraphCount: (stats as any).paragraphCount || 0,
+        avgWordsPerSentence: (stats as any).avgWordsPerSentence || 0,
+        readingTime: Math.ceil(stats.wordCount / 200) || 1,
+      },
+    };
+
+    await recordStage(timeline, "analysis", async () => {
+      signal.throwIfAborted();
+      console.log(`[${documentId}] Saving analysis...`);
+      await storage.createExtraction({
+        documentId,
+        version,
+        extractionType: "analysis",
+        data: analysis,
+      });
+      if (entities.length > 0) {
+        const located = locateEntities(text, normalizeEntities(entities, documentDate(doc, content.metadata)), pages);
+        await storage.createExtraction({
+          documentId,
+          version,
+          extractionType: "entities",
+          data: located,
+        });
+        await updateEntityRegistry(doc.userId, documentId, version, located);
+      }
+      if (content.headings.length > 0) {
+        const structure: DocumentStructure = { headings: content.headings };
+        await storage.createExtraction({
+          documentId,
+          version,
+          extractionType: "structure",
+          data: structure,
+        });
+      }
+      if (content.navigation) {
+        await storage.createExtraction({
+          documentId,
+          version,
+          extractionType: "navigation",
+          data: content.navigation,
+        });
+      }
+      if (content.form) {
+        await storage.createExtraction({
+          documentId,
+          version,
+          extractionType: "form",
+          data: content.form,
+        });
+      }
+    }, () => ({
+      headings: content.headings.length,
+      outlineEntries: content.navigation?.outline.length ?? 0,
+      links: content.navigation?.links.length ?? 0,
+      formFields: content.form?.fields.length ?? 0,
+    }));
+    await update({ processingProgress: 80 });
+    console.log(`[${documentId}] Analysis saved.`);
+
+    if (isGeminiConfigured() && options.aiEnhancement !== false) {
+      console.log(`[${documentId}] Enhancing with AI (non-blocking)...`);
+      // Run AI enhancement in background (non-blocking). It outlives the job,
+      // so its stage is not tied to the job's cancellation signal.
+      enhanceAnalysisWithAI({ documentId, version, attempt }, text).catch((error) => {
+        console.error(`[${documentId}] AI enhancement failed:`, error);
+      });
+      await update({ processingProgress: 90 }, "ai");
+    }
+
+    signal.throwIfAborted();
+    await update({
+      status: "completed",
+      processedAt: new Date(),
+      pageCount,
+      metadata: { ...doc.metadata, ...definedValues(content.metadata) },
+      processingProgress: 100,
+      extractedText: text.slice(0, 50000), // Store first 50KB of text for quick access
+    });
+    console.log(`[${documentId}] Processing complete.`);
+  } catch (error) {
+    console.error(`[${documentId}] Error processing document:`, error);
+    throw error;
+  }
+}
+
+async function enhanceAnalysisWithAI(context: StageContext, text: string): Promise<void> {
+  const { documentId, version } = context;
+  try {
+    await recordStage(context, "ai", async () => {
+      const [summary, aiKeywords] = await Promise.all([
+        generateDocumentSummary(text),
+        extractKeywords(text),
+      ]).catch((error) => {
+        throw new ProcessingError("ai_provider", undefined, { cause: error });
+      });
+
+      const existingExtraction = await storage.getExtraction(
+        documentId,
+        "analysis",
+        version
+      );
+      if (existingExtraction) {
+        const analysis = existingExtraction.data as DocumentAnalysis;
+        analysis.summary = summary;
+        analysis.keywords = Array.from(
+          new Set([...aiKeywords, ...analysis.keywords])
+        ).slice(0, 15);
+        await storage.updateExtraction((existingExtraction as any)._id, analysis);
+      }
+      return aiKeywords;
+    }, (aiKeywords) => ({ keywords: aiKeywords.length }));
+  } catch (error) {
+    console.error(`[${documentId}] AI enhancement failed:`, error);
+  }
+}
@@ -1,4 +1,5 @@
 import session from "express-session";
+import { ServerResponse, type IncomingMessage } from "http";
 import type { Express, RequestHandler } from "express";
 import MongoStore from "connect-mongo";
 import { storage } from "./storage";
@@ -42,10 +43,13 @@ const mockUser = {
   expires_at: Math.floor(Date.now() / 1000) + 3600, // Expires in 1 hour
 };
 
+let sessionMiddleware: RequestHandler | null = null;
+
 // This function sets up a mock authentication middleware
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
 
   // Middleware to create a mock user and session
   app.use(async (req: any, res, next) => {
@@ -79,6 +83,17 @@ export async function setupAuth(app: Express) {
   });
 }
 
+// Resolves the signed-in user of a request that does not pass through
+// Express, such as a WebSocket upgrade. Resolves null without a session.
+export function getSessionUser(req: IncomingMessage): Promise<any | null> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) return resolve(null);
+    sessionMiddleware(req as any, new ServerResponse(req) as any, () => {
+      resolve((req as any).session?.user ?? null);
+    });
+  });
+}
+
 // This middleware checks if a user is "authenticated" in our mock setup
 export const isAuthenticated: RequestHandler = (req: any, res, next) => {
   if (req.user) {
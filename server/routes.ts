@@ -1,53 +1,70 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { createRequire } from "module";
 import multer from "multer";
-import path from "path";
-import fs from "fs";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
+import { fromZodError } from "zod-validation-error";
+import { isGeminiConfigured, generateChatResponse } from "./gemini";
+import { jobQueue } from "./jobQueue";
 import {
-  generateDocumentSummary,
-  extractKeywords,
-  isGeminiConfigured,
-  generateChatResponse,
-} from "./gemini";
+  PROCESS_JOB,
+  processDocumentJob,
+  CUSTOM_ENTITIES_JOB,
+  customEntitiesJob,
+  enqueueCustomEntityRefresh,
+  enqueueDocumentProcessing,
+  createArchiveBatch,
+  hashContent,
+  requeueOrphanedDocuments,
+  uniqueUploadName,
+} from "./pipeline";
+import { blobStore } from "./blobs";
+import { publishDocumentEvent, setupEventSocket } from "./events";
+import { compareDocuments, loadComparisonInput } from "./compare";
+import { activateDocumentVersion, addDocumentVersion, ensureVersionHistory } from "./versions";
+import { renderImageFrame } from "./extractors";
+import { parseValueFilter } from "./normalize";
+import { REGISTRY_TYPES, describeRegistryEntity, documentsById, summarizeRegistryEntity } from "./entityRegistry";
+import { invalidPatterns } from "./gazetteer";
 import {
-  extractEntities,
-  extractTablesFromText,
-  getTextStatistics,
-  extractKeywordsFromText,
-} from "./nlp";
-import type { DocumentAnalysis } from "@shared/mongo-schema";
-
-const require = createRequire(import.meta.url);
-const pdf = require("pdf-parse");
-
-const uploadDir = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
+  CustomEntityTypeInputSchema,
+  DocumentPasswordSchema,
+  FormFieldValuesSchema,
+  ProcessingOptionsSchema,
+  UserPreferencesSchema,
+  type DocumentForm,
+  type EmailMetadata,
+  type FormField,
+  type Page,
+} from "@shared/mongo-schema";
+import { isArchiveUpload, isSupportedUpload, SUPPORTED_FORMATS_LABEL } from "@shared/file-types";
+
+function findPageForOffset(pages: Page[], offset: number): number | null {
+  if (offset < 0) return null;
+  const page = pages.find(
+    (p) => p.charStart !== undefined && p.charEnd !== undefined &&
+      offset >= p.charStart && offset < p.charEnd
+  );
+  return page ? page.pageNumber : null;
 }
 
-const multerStorage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, uploadDir);
-  },
-  filename: (_req, file, cb) => {
-    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
-    cb(null, uniqueSuffix + path.extname(file.originalname));
-  },
-});
+// Page images are scaled down for the viewer; OCR works on the full-size frame
+const PAGE_IMAGE_MAX_DIMENSION = 2000;
+
+// Statuses in which a document has work queued or running
+const IN_FLIGHT_STATUSES = ["pending", "processing"];
 
+// Uploads are held in memory until they are hashed and handed to the blob store
 const upload = multer({
-  storage: multerStorage,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 100 * 1024 * 1024, // 100MB limit
   },
   fileFilter: (_req, file, cb) => {
-    if (file.mimetype === "application/pdf") {
+    if (isSupportedUpload(file.originalname, file.mimetype) || isArchiveUpload(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error("Only PDF files are allowed"));
+      cb(new Error(`Unsupported file type. Supported formats: ${SUPPORTED_FORMATS_LABEL}, or a ZIP archive of them`));
     }
   },
 });
@@ -93,6 +110,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/auth/user/preferences", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const result = UserPreferencesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const user = await storage.upsertUser({ _id: req.user.claims.sub, ...result.data });
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating user preferences:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
   app.get(
     "/api/dashboard/stats",
     isAuthenticated,
@@ -112,8 +144,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const query = req.query.q as string | undefined;
+      // "amount > 10,000" or "dates in Q3" search normalized values instead of text
+      const valueFilter = query ? parseValueFilter(query) : null;
 
       const docs =
+        valueFilter ?
+          await storage.searchDocumentsByValue(userId, valueFilter) :
         query ?
           await storage.searchDocuments(userId, query) :
           await storage.getDocuments(userId);
@@ -147,6 +183,237 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // The original upload, streamed with support for Range requests so that
+  // the PDF viewer only fetches the parts it renders. `version` serves an
+  // earlier version's file and `download=1` asks the browser to save it.
+  app.get(
+    "/api/documents/:id/file",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const version = req.query.version ? parseInt(req.query.version as string, 10) : doc.currentVersion ?? 1;
+        if (!Number.isInteger(version) || version < 1) {
+          return res.status(400).json({ message: "Invalid version" });
+        }
+
+        const file = version === (doc.currentVersion ?? 1)
+          ? doc
+          : await storage.getDocumentVersion(req.params.id, version);
+        if (!file) {
+          return res.status(404).json({ message: "Version not found" });
+        }
+
+        const size = await blobStore.size(file.filename);
+        if (size === null) {
+          return res.status(404).json({ message: "File not found" });
+        }
+
+        const disposition = req.query.download === "1" ? "attachment" : "inline";
+        res.set({
+          "Accept-Ranges": "bytes",
+          "Content-Type": file.mimeType,
+          "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(file.originalName)}`,
+          "Cache-Control": "private, max-age=3600",
+        });
+        if (file.contentHash) res.set("ETag", `"${file.contentHash}"`);
+
+        // Multiple ranges are answered with the whole file
+        const ranges = req.range(size, { combine: true });
+        if (ranges === -1) {
+          res.set("Content-Range", `bytes */${size}`);
+          return res.status(416).end();
+        }
+
+        const range = Array.isArray(ranges) && ranges.length === 1 ? ranges[0] : undefined;
+        if (range) {
+          res.status(206).set({
+            "Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+            "Content-Length": String(range.end - range.start + 1),
+          });
+        } else {
+          res.set("Content-Length", String(size));
+        }
+
+        if (req.method === "HEAD") {
+          return res.end();
+        }
+
+        const stream = await blobStore.createReadStream(file.filename, range);
+        stream.on("error", (error) => {
+          console.error(`[${req.params.id}] Error streaming file:`, error);
+          res.destroy(error);
+        });
+        stream.pipe(res);
+      } catch (error) {
+        console.error("Error serving document file:", error);
+        res.status(500).json({ message: "Failed to serve document file" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/documents/:id/pages",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const pages = await storage.getPageSummaries(req.params.id, doc.currentVersion);
+        res.json(pages);
+      } catch (error) {
+        console.error("Error fetching pages:", error);
+        res.status(500).json({ message: "Failed to fetch pages" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/documents/:id/pages/:n",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const pageNumber = parseInt(req.params.n, 10);
+        if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+          return res.status(400).json({ message: "Invalid page number" });
+        }
+
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const page = await storage.getPage(req.params.id, pageNumber, doc.currentVersion);
+        if (!page) {
+          return res.status(404).json({ message: "Page not found" });
+        }
+
+        res.json(page);
+      } catch (error) {
+        console.error("Error fetching page:", error);
+        res.status(500).json({ message: "Failed to fetch page" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/documents/:id/pages/:n/image",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const pageNumber = parseInt(req.params.n, 10);
+        if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+          return res.status(400).json({ message: "Invalid page number" });
+        }
+
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        if (doc.format !== "image") {
+          return res.status(404).json({ message: "Document has no page images" });
+        }
+
+        if (doc.pageCount && pageNumber > doc.pageCount) {
+          return res.status(404).json({ message: "Page not found" });
+        }
+
+        if (!(await blobStore.exists(doc.filename))) {
+          return res.status(404).json({ message: "File not found" });
+        }
+
+        // TIFF frames are not displayable in browsers, so every page is served as PNG
+        const data = await blobStore.get(doc.filename);
+        const image = await renderImageFrame(data, pageNumber - 1, PAGE_IMAGE_MAX_DIMENSION);
+        res.set("Cache-Control", "private, max-age=3600");
+        res.type("png").send(image);
+      } catch (error) {
+        console.error("Error rendering page image:", error);
+        res.status(500).json({ message: "Failed to render page image" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/documents/:id/children",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const children = await storage.getChildDocuments(req.params.id);
+        res.json(children);
+      } catch (error) {
+        console.error("Error fetching child documents:", error);
+        res.status(500).json({ message: "Failed to fetch attachments" });
+      }
+    }
+  );
+
+  // Other emails in the same conversation, linked through Message-ID,
+  // In-Reply-To and References headers
+  app.get(
+    "/api/documents/:id/thread",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const email: EmailMetadata | undefined = doc.metadata?.email;
+        const messageIds = new Set<string>();
+        for (const message of email?.messages || []) {
+          if (message.messageId) messageIds.add(message.messageId);
+          if (message.inReplyTo) messageIds.add(message.inReplyTo);
+          message.references?.forEach((id) => messageIds.add(id));
+        }
+
+        const thread = await storage.getEmailThread(doc.userId, Array.from(messageIds));
+        res.json(thread);
+      } catch (error) {
+        console.error("Error fetching email thread:", error);
+        res.status(500).json({ message: "Failed to fetch email thread" });
+      }
+    }
+  );
+
   app.post(
     "/api/documents/upload",
     isAuthenticated,
@@ -159,22 +426,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         const userId = req.user.claims.sub;
         const file = req.file;
+        const user = await storage.getUser(userId);
+        const duplicatePolicy = user?.duplicatePolicy || "link";
+
+        if (isArchiveUpload(file.originalname, file.mimetype)) {
+          let expanded;
+          try {
+            expanded = await createArchiveBatch(userId, file.buffer, file.originalname, duplicatePolicy);
+          } catch (error) {
+            console.error("Error expanding archive:", error);
+            const message = error instanceof Error ? error.message : "Invalid archive";
+            return res.status(400).json({ message: `Could not expand archive: ${message}` });
+          }
+
+          // Documents still being processed keep their duplicate as it is
+          for (const { document, upload } of expanded.versions) {
+            if (!IN_FLIGHT_STATUSES.includes(document.status)) {
+              await addDocumentVersion(document, upload);
+            }
+          }
+          const { batch, documents } = expanded;
+          return res.json({
+            batchId: (batch as any)._id.toString(),
+            documents,
+            skipped: batch.skipped,
+            duplicates: batch.duplicates,
+          });
+        }
+
+        const contentHash = hashContent(file.buffer);
+        const existing = await storage.findDocumentByHash(userId, contentHash);
+        const duplicateOf = existing && {
+          id: (existing as any)._id.toString(),
+          originalName: existing.originalName,
+        };
+
+        if (existing && duplicatePolicy === "new") {
+          // A forced re-upload becomes the next version of the existing document
+          if (IN_FLIGHT_STATUSES.includes(existing.status)) {
+            return res.status(409).json({
+              message: "The existing document is already being processed",
+              duplicateOf,
+            });
+          }
+          const updated = await addDocumentVersion(existing, {
+            data: file.buffer,
+            originalName: file.originalname,
+            mimeType: file.mimetype,
+            contentHash,
+          });
+          return res.json({ ...updated, duplicateOf });
+        }
+
+        if (existing) {
+          if (duplicatePolicy === "reject") {
+            return res.status(409).json({
+              message: "This file was already uploaded",
+              duplicateOf,
+            });
+          }
+          return res.json({ ...existing, duplicateOf });
+        }
+
+        const filename = uniqueUploadName(file.originalname);
+        await blobStore.put(filename, file.buffer, file.mimetype);
 
         const doc = await storage.createDocument({
           userId,
-          filename: file.filename,
+          filename,
           originalName: file.originalname,
           mimeType: file.mimetype,
           fileSize: file.size,
-          status: "processing",
+          contentHash,
+          status: "pending",
         });
 
-        processDocument((doc as any)._id, file.path).catch((error) => {
-          console.error(`Error processing document ${(doc as any)._id}:`, error);
-          storage.updateDocument((doc as any)._id, { status: "error" });
-        });
+        await enqueueDocumentProcessing(doc);
 
-        res.json(doc);
+        res.json(duplicateOf ? { ...doc, duplicateOf } : doc);
       } catch (error) {
         console.error("Error uploading document:", error);
         res.status(500).json({ message: "Failed to upload document" });
@@ -182,6 +511,377 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  app.get("/api/batches/:id", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const batch = await storage.getBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      if (batch.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const documents = await storage.getBatchDocuments(req.params.id);
+      res.json({ ...batch, documents });
+    } catch (error) {
+      console.error("Error fetching batch:", error);
+      res.status(500).json({ message: "Failed to fetch batch" });
+    }
+  });
+
+  app.post(
+    "/api/documents/:id/retry",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        if (doc.status !== "error" && doc.status !== "cancelled") {
+          return res.status(409).json({
+            message: "Only failed or cancelled documents can be retried",
+          });
+        }
+
+        await enqueueDocumentProcessing(doc);
+        const updated = await storage.getDocument(req.params.id);
+        res.json(updated);
+      } catch (error) {
+        console.error("Error retrying document:", error);
+        res.status(500).json({ message: "Failed to retry document" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/documents/:id/reprocess",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const parsed = ProcessingOptionsSchema.safeParse(req.body?.options ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: fromZodError(parsed.error).message });
+        }
+
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        if (IN_FLIGHT_STATUSES.includes(doc.status)) {
+          return res.status(409).json({
+            message: "Document is already being processed",
+          });
+        }
+
+        // Previous pages and extractions are replaced when the job starts
+        await enqueueDocumentProcessing(doc, {
+          ...(doc.processingOptions || {}),
+          ...parsed.data,
+        });
+        const updated = await storage.getDocument(req.params.id);
+        res.json(updated);
+      } catch (error) {
+        console.error("Error reprocessing document:", error);
+        res.status(500).json({ message: "Failed to reprocess document" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/documents/:id/cancel",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        if (!IN_FLIGHT_STATUSES.includes(doc.status)) {
+          return res.status(409).json({
+            message: "Document is not being processed",
+          });
+        }
+
+        // Guarded so that a job finishing in the meantime is not overwritten
+        const cancelled = await storage.updateVersionState(req.params.id, doc.currentVersion ?? 1, {
+          status: "cancelled",
+          processingProgress: 0,
+        }, IN_FLIGHT_STATUSES);
+        if (!cancelled) {
+          return res.status(409).json({
+            message: "Document is not being processed",
+          });
+        }
+
+        await jobQueue.cancel(req.params.id);
+        publishDocumentEvent(doc.userId, {
+          type: "cancelled",
+          documentId: req.params.id,
+          version: doc.currentVersion ?? 1,
+          status: "cancelled",
+          processingProgress: 0,
+        });
+        const updated = await storage.getDocument(req.params.id);
+        res.json(updated);
+      } catch (error) {
+        console.error("Error cancelling document processing:", error);
+        res.status(500).json({ message: "Failed to cancel processing" });
+      }
+    }
+  );
+
+  // Resumes processing of an encrypted file. The password goes to the job
+  // sealed, and is removed from it once the file has been processed.
+  app.post(
+    "/api/documents/:id/password",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const parsed = DocumentPasswordSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: fromZodError(parsed.error).message });
+        }
+
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        if (doc.status !== "needs_password") {
+          return res.status(409).json({ message: "Document is not waiting for a password" });
+        }
+
+        await enqueueDocumentProcessing(doc, doc.processingOptions || {}, doc.currentVersion ?? 1, parsed.data.password);
+        const updated = await storage.getDocument(req.params.id);
+        res.json(updated);
+      } catch (error) {
+        console.error("Error submitting document password:", error);
+        res.status(500).json({ message: "Failed to submit password" });
+      }
+    }
+  );
+
+  // Corrects the values of a PDF form's fields in the current version. The
+  // value read from the file is kept alongside the first correction.
+  app.patch(
+    "/api/documents/:id/form",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const parsed = FormFieldValuesSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: fromZodError(parsed.error).message });
+        }
+
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const extraction = await storage.getExtraction(req.params.id, "form", doc.currentVersion ?? 1);
+        if (!extraction) {
+          return res.status(404).json({ message: "Document has no form fields" });
+        }
+
+        const form = extraction.data as DocumentForm;
+        const values = parsed.data.values;
+        const invalid = (field: FormField | undefined, value: string) =>
+          !field ? "Unknown form field" :
+          field.type === "signature" ? "Signature fields cannot be edited" :
+          field.type === "checkbox" && value !== "Yes" && value !== "No" ? "Checkboxes must be Yes or No" :
+          field.options && value !== "" && !field.options.includes(value) ? "Not one of the field's options" :
+          null;
+        for (const name of Object.keys(values)) {
+          const problem = invalid(form.fields.find((f) => f.name === name), values[name]);
+          if (problem) {
+            return res.status(400).json({ message: `${problem}: ${name}` });
+          }
+        }
+
+        const fields = form.fields.map((field) =>
+          !Object.prototype.hasOwnProperty.call(values, field.name) || values[field.name] === field.value
+            ? field
+            : { ...field, value: values[field.name], originalValue: field.originalValue ?? field.value }
+        );
+        const updated: DocumentForm = { ...form, fields };
+        await storage.updateExtraction((extraction as any)._id.toString(), updated);
+        res.json(updated);
+      } catch (error) {
+        console.error("Error updating form fields:", error);
+        res.status(500).json({ message: "Failed to update form fields" });
+      }
+    }
+  );
+
+  // Processing timeline of one version, the current one by default
+  app.get(
+    "/api/documents/:id/events",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const version = req.query.version ? Number(req.query.version) : doc.currentVersion ?? 1;
+        if (!Number.isInteger(version) || version < 1) {
+          return res.status(400).json({ message: "Invalid version" });
+        }
+
+        const events = await storage.getProcessingEvents(req.params.id, version);
+        res.json(events);
+      } catch (error) {
+        console.error("Error fetching processing events:", error);
+        res.status(500).json({ message: "Failed to fetch processing events" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/documents/:id/versions",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const versions = await ensureVersionHistory(doc);
+        res.json(versions);
+      } catch (error) {
+        console.error("Error fetching document versions:", error);
+        res.status(500).json({ message: "Failed to fetch document versions" });
+      }
+    }
+  );
+
+  // A revised file becomes the next version of the same document
+  app.post(
+    "/api/documents/:id/versions",
+    isAuthenticated,
+    upload.single("file"),
+    async (req: any, res: Response) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const file = req.file;
+        if (isArchiveUpload(file.originalname, file.mimetype)) {
+          return res.status(400).json({ message: "A new version must be a single document" });
+        }
+
+        if (IN_FLIGHT_STATUSES.includes(doc.status)) {
+          return res.status(409).json({
+            message: "Document is already being processed",
+          });
+        }
+
+        const contentHash = hashContent(file.buffer);
+        const versions = await ensureVersionHistory(doc);
+        const same = versions.find((v) => v.contentHash === contentHash);
+        if (same) {
+          return res.status(409).json({
+            message: `This file has the same content as version ${same.version}`,
+          });
+        }
+
+        const updated = await addDocumentVersion(doc, {
+          data: file.buffer,
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+          contentHash,
+        });
+        res.json(updated);
+      } catch (error) {
+        console.error("Error uploading document version:", error);
+        res.status(500).json({ message: "Failed to upload new version" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/documents/:id/versions/:version/activate",
+    isAuthenticated,
+    async (req: any, res: Response) => {
+      try {
+        const version = parseInt(req.params.version, 10);
+        if (!Number.isInteger(version) || version < 1) {
+          return res.status(400).json({ message: "Invalid version" });
+        }
+
+        const doc = await storage.getDocument(req.params.id);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (doc.userId !== req.user.claims.sub) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        if (IN_FLIGHT_STATUSES.includes(doc.status)) {
+          return res.status(409).json({
+            message: "Document is being processed",
+          });
+        }
+
+        const updated = await activateDocumentVersion(doc, version);
+        if (!updated) {
+          return res.status(404).json({ message: "Version not found" });
+        }
+
+        res.json(updated);
+      } catch (error) {
+        console.error("Error switching document version:", error);
+        res.status(500).json({ message: "Failed to switch version" });
+      }
+    }
+  );
+
   app.delete(
     "/api/documents/:id",
     isAuthenticated,
@@ -196,11 +896,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(403).json({ message: "Access denied" });
         }
 
-        const filePath = path.join(uploadDir, doc.filename);
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
+        // Earlier versions keep their own files
+        const versions = await storage.getDocumentVersions(req.params.id);
+        const filenames = new Set([doc.filename, ...versions.map((v) => v.filename)]);
+        for (const filename of Array.from(filenames)) {
+          await blobStore.delete(filename);
         }
-
         await storage.deleteDocument(req.params.id);
         res.json({ message: "Document deleted" });
       } catch (error) {
@@ -251,11 +952,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
+      // Answers are based on whichever version is current when asked
+      const version = doc.currentVersion ?? 1;
       await storage.createChatMessage({
         documentId,
         userId,
         role: "user",
         content,
+        version,
       });
 
       const chatHistory = await storage.getChatMessages(documentId);
@@ -292,7 +996,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             
             if (sentences.length > 0) {
               const relevantSentences = sentences.slice(0, 3);
-              citations = relevantSentences.map(s => s.trim());
+              const pages = await storage.getPageSummaries(documentId, version);
+              citations = relevantSentences.map(s => {
+                const page = findPageForOffset(pages, doc.extractedText!.indexOf(s));
+                return page ? `(p. ${page}) ${s.trim()}` : s.trim();
+              });
               
               aiResponse = `Based on the document, here's what I found:\n\n${relevantSentences.join('. ')}.\n\n**Sources**\n${citations.map((c, i) => `[${i + 1}] ${c}`).join('\n')}`;
             } else {
@@ -312,6 +1020,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         role: "assistant",
         content: aiResponse,
         citations: citations.length > 0 ? citations : undefined,
+        version,
       });
 
       res.json(assistantMessage);
@@ -321,219 +1030,217 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reports", isAuthenticated, async (req: any, res: Response) => {
+  // Aligns two documents, or two versions of one, paragraph by paragraph and
+  // diffs their entities, keywords and tables
+  app.get("/api/compare", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const ids = [req.query.left, req.query.right] as (string | undefined)[];
+      if (!ids[0] || !ids[1]) {
+        return res.status(400).json({ message: "Missing left or right document" });
+      }
+
+      const versions = [req.query.leftVersion, req.query.rightVersion].map((value) =>
+        value === undefined ? undefined : parseInt(value as string, 10)
+      );
+      if (versions.some((v) => v !== undefined && (!Number.isInteger(v) || v < 1))) {
+        return res.status(400).json({ message: "Invalid version" });
+      }
+
+      const docs = await Promise.all(ids.map((id) => storage.getDocument(id!)));
+      if (!docs[0] || !docs[1]) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      if (docs.some((doc) => doc!.userId !== req.user.claims.sub)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const [left, right] = await Promise.all(
+        docs.map((doc, i) => loadComparisonInput(doc!, versions[i] ?? doc!.currentVersion ?? 1))
+      );
+      if (!left || !right) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      if (left.status !== "completed" || right.status !== "completed") {
+        return res.status(409).json({
+          message: "Both documents must finish processing before they can be compared",
+        });
+      }
+
+      res.json(compareDocuments(left, right));
+    } catch (error) {
+      console.error("Error comparing documents:", error);
+      res.status(500).json({ message: "Failed to compare documents" });
+    }
+  });
+
+  // People, organizations and places across all of the user's documents, most
+  // widely mentioned first. `documentId` limits them to one document.
+  app.get("/api/entities", isAuthenticated, async (req: any, res: Response) => {
     try {
       const userId = req.user.claims.sub;
-      const reports = await storage.getReportsData(userId);
-      res.json(reports);
+      const type = req.query.type as string | undefined;
+      if (type && !(REGISTRY_TYPES as string[]).includes(type)) {
+        return res.status(400).json({ message: "Invalid entity type" });
+      }
+
+      const [documents, entities] = await Promise.all([
+        storage.getDocuments(userId),
+        storage.getRegistryEntities(userId, {
+          type,
+          query: (req.query.q as string | undefined)?.trim() || undefined,
+          documentId: req.query.documentId as string | undefined,
+        }),
+      ]);
+      const byId = documentsById(documents);
+      const summaries = entities
+        .map((entity) => summarizeRegistryEntity(entity, byId))
+        .filter((summary) => summary !== null)
+        .sort((a, b) => b!.documentCount - a!.documentCount || b!.mentionCount - a!.mentionCount);
+      res.json(summaries);
     } catch (error) {
-      console.error("Error fetching reports:", error);
-      res.status(500).json({ message: "Failed to fetch reports" });
+      console.error("Error fetching entities:", error);
+      res.status(500).json({ message: "Failed to fetch entities" });
     }
   });
 
-  (async () => {
+  app.get("/api/entities/:id", isAuthenticated, async (req: any, res: Response) => {
     try {
-      console.log("Checking for documents stuck in 'processing' state...");
-      // Get all documents and filter stuck ones (processing for more than 10 minutes)
-      const allDocs = await storage.getDocuments("mock-user-id-123");
-      const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-      const stuckDocuments = allDocs.filter(
-        (doc) => doc.status === "processing" && new Date(doc.uploadDate) < tenMinutesAgo
-      );
+      const entity = await storage.getRegistryEntity(req.params.id);
+      if (!entity) {
+        return res.status(404).json({ message: "Entity not found" });
+      }
 
-      if (stuckDocuments.length > 0) {
-        console.log(
-          `Found ${stuckDocuments.length} stuck document(s). Restarting processing...`
-        );
+      if (entity.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-        for (const doc of stuckDocuments) {
-          try {
-            const docId = (doc as any)._id?.toString();
+      const documents = await storage.getDocuments(entity.userId);
+      const detail = describeRegistryEntity(entity, documentsById(documents));
+      if (!detail) {
+        return res.status(404).json({ message: "Entity not found" });
+      }
+      res.json(detail);
+    } catch (error) {
+      console.error("Error fetching entity:", error);
+      res.status(500).json({ message: "Failed to fetch entity" });
+    }
+  });
 
-            if (!docId) {
-              console.error(
-                `- Reprocessing failed: Document with original name '${doc.originalName}' has no ID.`
-              );
-              continue;
-            }
+  // Custom entity types. Saving or deleting one queues the user's processed
+  // documents to have their custom entities found again.
+  app.get("/api/entity-types", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const types = await storage.getCustomEntityTypes(req.user.claims.sub);
+      res.json(types);
+    } catch (error) {
+      console.error("Error fetching entity types:", error);
+      res.status(500).json({ message: "Failed to fetch entity types" });
+    }
+  });
 
-            const filePath = path.join(uploadDir, doc.filename);
-            if (fs.existsSync(filePath)) {
-              console.log(`- Reprocessing: ${doc.originalName} (ID: ${docId})`);
-              await processDocument(docId, filePath);
-            } else {
-              console.warn(
-                `- File not found for document ${docId}. Marking as error.`
-              );
-              await storage.updateDocument(docId, { status: "error" });
-            }
-          } catch (error) {
-            console.error(
-              `Error reprocessing document ${(doc as any).id}:`,error
-            );
-          }
-        }
+  app.post("/api/entity-types", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const result = CustomEntityTypeInputSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      const errors = invalidPatterns(result.data.patterns);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: `Invalid pattern: ${errors.join("; ")}` });
+      }
+
+      const userId = req.user.claims.sub;
+      const type = await storage.createCustomEntityType({ userId, ...result.data });
+      const refreshing = await enqueueCustomEntityRefresh(userId);
+      res.status(201).json({ ...type, refreshing });
+    } catch (error) {
+      console.error("Error creating entity type:", error);
+      res.status(500).json({ message: "Failed to create entity type" });
+    }
+  });
 
-        console.log("Finished reprocessing stuck documents.");
-      } else {
-        console.log("No stuck documents found. System is clean.");
+  app.patch("/api/entity-types/:id", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const type = await storage.getCustomEntityType(req.params.id);
+      if (!type) {
+        return res.status(404).json({ message: "Entity type not found" });
+      }
+
+      if (type.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Access denied" });
       }
+
+      const result = CustomEntityTypeInputSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      const errors = invalidPatterns(result.data.patterns || []);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: `Invalid pattern: ${errors.join("; ")}` });
+      }
+
+      const updated = await storage.updateCustomEntityType(req.params.id, result.data);
+      const refreshing = await enqueueCustomEntityRefresh(type.userId);
+      res.json({ ...updated, refreshing });
     } catch (error) {
-      console.error(
-        "Error during startup reprocessing of stuck documents:",
-        error
-      );
+      console.error("Error updating entity type:", error);
+      res.status(500).json({ message: "Failed to update entity type" });
     }
-  })();
+  });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  app.delete("/api/entity-types/:id", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const type = await storage.getCustomEntityType(req.params.id);
+      if (!type) {
+        return res.status(404).json({ message: "Entity type not found" });
+      }
 
-async function processDocument(
-  documentId: string,
-  filePath: string
-): Promise<void> {
-  console.log(`Starting to process document ${documentId} at path ${filePath}`);
-  try {
-    await storage.updateDocument(documentId, {
-      status: "processing",
-      processingProgress: 10,
-    });
-    console.log(`[${documentId}] Parsing PDF...`);
-    const dataBuffer = fs.readFileSync(filePath);
-    const pdfData = await pdf(dataBuffer);
-    await storage.updateDocument(documentId, { processingProgress: 25 });
-    console.log(`[${documentId}] PDF parsed successfully.`);
-
-    const text = pdfData.text || "";
-    const pageCount = pdfData.numpages || 1;
-
-    console.log(`[${documentId}] Saving extracted text...`);
-    await storage.createPage({
-      documentId,
-      pageNumber: 1,
-      extractedText: text,
-      ocrConfidence: 1.0,
-    });
-    await storage.updateDocument(documentId, { processingProgress: 40 });
-    console.log(`[${documentId}] Extracted text saved.`);
-
-    console.log(`[${documentId}] Running NLP tasks...`);
-    const [entities, nlpKeywords, tables, stats] = await Promise.all([
-      Promise.resolve(extractEntities(text)).catch((e) => {
-        console.error(`[${documentId}] Error in extractEntities`, e);
-        return [];
-      }),
-      Promise.resolve(extractKeywordsFromText(text)).catch((e) => {
-        console.error(`[${documentId}] Error in extractKeywordsFromText`, e);
-        return [];
-      }),
-      Promise.resolve(extractTablesFromText(text)).catch((e) => {
-        console.error(`[${documentId}] Error in extractTablesFromText`, e);
-        return [];
-      }),
-      Promise.resolve(getTextStatistics(text)).catch((e) => {
-        console.error(`[${documentId}] Error in getTextStatistics`, e);
-        return { wordCount: 0, characterCount: 0 };
-      }),
-    ]);
-    await storage.updateDocument(documentId, { processingProgress: 60 });
-    console.log(`[${documentId}] NLP tasks completed.`);
-
-    const sentences = text
-      .split(/[.!?]+/)
-      .filter((s: string) => s.trim().length > 20)
-      .slice(0, 3);
-    const summary =
-      sentences.join(". ") + (sentences.length > 0 ? "." : "No summary available.");
-
-    // Group entities by type
-    const groupedEntities = {
-      persons: Array.isArray(entities) ? entities.filter(e => e.type === 'person').map(e => e.text) : [],
-      organizations: Array.isArray(entities) ? entities.filter(e => e.type === 'organization').map(e => e.text) : [],
-      locations: Array.isArray(entities) ? entities.filter(e => e.type === 'location').map(e => e.text) : [],
-      dates: Array.isArray(entities) ? entities.filter(e => e.type === 'date').map(e => e.text) : [],
-      money: Array.isArray(entities) ? entities.filter(e => e.type === 'money').map(e => e.text) : [],
-      emails: Array.isArray(entities) ? entities.filter(e => e.type === 'email').map(e => e.text) : [],
-      phones: Array.isArray(entities) ? entities.filter(e => e.type === 'phone').map(e => e.text) : [],
-    };
-
-    const analysis: DocumentAnalysis = {
-      summary,
-      keywords: nlpKeywords.slice(0, 15),
-      entities: groupedEntities,
-      tables,
-      statistics: {
-        wordCount: stats.wordCount,
-        charCount: stats.characterCount,
-        sentenceCount: (stats as any).sentenceCount || 0,
-        paragraphCount: (stats as any).paragraphCount || 0,
-        avgWordsPerSentence: (stats as any).avgWordsPerSentence || 0,
-        readingTime: Math.ceil(stats.wordCount / 200) || 1,
-      },
-    };
-
-    console.log(`[${documentId}] Saving analysis...`);
-    await storage.createExtraction({
-      documentId,
-      extractionType: "analysis",
-      data: analysis,
-    });
-    await storage.updateDocument(documentId, { processingProgress: 80 });
-    console.log(`[${documentId}] Analysis saved.`);
-
-    if (isGeminiConfigured()) {
-      console.log(`[${documentId}] Enhancing with AI (non-blocking)...`);
-      // Run AI enhancement in background (non-blocking)
-      enhanceAnalysisWithAI(documentId, text).catch((error) => {
-        console.error(`[${documentId}] AI enhancement failed:`, error);
-      });
-      await storage.updateDocument(documentId, { processingProgress: 90 });
-    }
-
-    await storage.updateDocument(documentId, {
-      status: "completed",
-      processedAt: new Date(),
-      pageCount,
-      processingProgress: 100,
-      extractedText: text.slice(0, 50000), // Store first 50KB of text for quick access
-    });
-    console.log(`[${documentId}] Processing complete.`);
-  } catch (error) {
-    console.error(`[${documentId}] Error processing document:`, error);
-    await storage.updateDocument(documentId, {
-      status: "error",
-      processingProgress: -1,
-    });
-    throw error;
-  }
-}
+      if (type.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteCustomEntityType(req.params.id);
+      const refreshing = await enqueueCustomEntityRefresh(type.userId);
+      res.json({ message: "Entity type deleted", refreshing });
+    } catch (error) {
+      console.error("Error deleting entity type:", error);
+      res.status(500).json({ message: "Failed to delete entity type" });
+    }
+  });
+
+  app.get("/api/reports", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      // Optionally limited to documents with values in a range, e.g. "dates in Q3"
+      const filterText = req.query.filter as string | undefined;
+      const filter = filterText ? parseValueFilter(filterText) : null;
+      if (filterText && !filter) {
+        return res.status(400).json({
+          message: 'Unrecognised filter. Try "amount > 10,000", "percentage >= 20" or "dates in Q3 2024".',
+        });
+      }
 
-async function enhanceAnalysisWithAI(
-  documentId: string,
-  text: string
-): Promise<void> {
-  try {
-    const [summary, aiKeywords] = await Promise.all([
-      generateDocumentSummary(text),
-      extractKeywords(text),
-    ]);
-
-    const existingExtraction = await storage.getExtraction(
-      documentId,
-      "analysis"
-    );
-    if (existingExtraction) {
-      const analysis = existingExtraction.data as DocumentAnalysis;
-      analysis.summary = summary;
-      analysis.keywords = Array.from(
-        new Set([...aiKeywords, ...analysis.keywords])
-      ).slice(0, 15);
-      await storage.updateExtraction((existingExtraction as any)._id, analysis);
-    }
-  } catch (error) {
-    console.error(`[${documentId}] AI enhancement failed:`, error);
-  }
+      const reports = await storage.getReportsData(userId, filter ?? undefined);
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  jobQueue.register(PROCESS_JOB, processDocumentJob);
+  jobQueue.register(CUSTOM_ENTITIES_JOB, customEntitiesJob);
+  jobQueue.start();
+
+  // Expired leases are reclaimed by the queue itself; this only picks up
+  // documents that never got a job in the first place.
+  requeueOrphanedDocuments().catch((error) => {
+    console.error("Error requeueing orphaned documents:", error);
+  });
+
+  const httpServer = createServer(app);
+  setupEventSocket(httpServer);
+  return httpServer;
 }
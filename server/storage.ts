@@ -1,6 +1,7 @@
 import { Collection, Db, ObjectId } from 'mongodb';
 import { db } from './db';
-import type { User, Document, Page, Extraction, ChatMessage } from '@shared/mongo-schema';
+import { VERSIONED_FIELDS, type User, type Document, type Page, type Extraction, type ChatMessage, type Job, type Batch, type DocumentVersion, type ProcessingEvent, type RegistryEntity, type RegistryEntityType, type RegistryMention, type CustomEntityType, type EntityValueFilter, type ExtractedEntity } from '@shared/mongo-schema';
+import { ENTITY_LABELS, type EntityKey } from '@shared/entities';
 
 export interface IStorage {
   // User operations
@@ -15,26 +16,137 @@ export interface IStorage {
   updateDocument(id: string, updates: Partial<Document>): Promise<Document | null>;
   deleteDocument(id: string): Promise<void>;
   searchDocuments(userId: string, query: string): Promise<Document[]>;
+  searchDocumentsByValue(userId: string, filter: EntityValueFilter): Promise<Document[]>;
+  getDocumentsByStatus(statuses: string[]): Promise<Document[]>;
+  getChildDocuments(parentId: string): Promise<Document[]>;
+  findDocumentByHash(userId: string, contentHash: string): Promise<Document | null>;
+  getEmailThread(userId: string, messageIds: string[]): Promise<Document[]>;
+  deleteProcessingResults(documentId: string, version?: number): Promise<void>;
+
+  // Version operations
+  createDocumentVersion(version: Partial<DocumentVersion>): Promise<DocumentVersion>;
+  upsertDocumentVersion(version: Partial<DocumentVersion>): Promise<DocumentVersion>;
+  getDocumentVersions(documentId: string): Promise<DocumentVersion[]>;
+  getDocumentVersion(documentId: string, version: number): Promise<DocumentVersion | null>;
+  updateVersionState(documentId: string, version: number, updates: Partial<Document>, statuses?: string[]): Promise<boolean>;
+  setCurrentVersion(documentId: string, version: DocumentVersion, versionCount?: number): Promise<Document | null>;
 
   // Page operations
   createPage(page: Partial<Page>): Promise<Page>;
-  getPages(documentId: string): Promise<Page[]>;
+  getPages(documentId: string, version?: number): Promise<Page[]>;
+  getPageSummaries(documentId: string, version?: number): Promise<Page[]>;
+  getPage(documentId: string, pageNumber: number, version?: number): Promise<Page | null>;
 
   // Extraction operations
   createExtraction(extraction: Partial<Extraction>): Promise<Extraction>;
-  getExtractions(documentId: string): Promise<Extraction[]>;
-  getExtraction(documentId: string, extractionType: string): Promise<Extraction | null>;
+  getExtractions(documentId: string, version?: number): Promise<Extraction[]>;
+  getExtraction(documentId: string, extractionType: string, version?: number): Promise<Extraction | null>;
   updateExtraction(id: string, data: any): Promise<Extraction | null>;
 
   // Chat operations
   getChatMessages(documentId: string): Promise<ChatMessage[]>;
   createChatMessage(message: Partial<ChatMessage>): Promise<ChatMessage>;
 
+  // Job queue operations
+  createJob(job: Partial<Job>): Promise<Job>;
+  getActiveJob(documentId: string, type: string): Promise<Job | null>;
+  claimJob(workerId: string, leaseMs: number): Promise<Job | null>;
+  heartbeatJob(id: string, workerId: string, leaseMs: number): Promise<boolean>;
+  completeJob(id: string, workerId: string): Promise<void>;
+  failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean>;
+  cancelJobs(documentId: string): Promise<number>;
+  removeJobPassword(id: string): Promise<void>;
+
+  // Processing timeline operations
+  createProcessingEvent(event: Partial<ProcessingEvent>): Promise<ProcessingEvent>;
+  updateProcessingEvent(id: string, updates: Partial<ProcessingEvent>): Promise<void>;
+  getProcessingEvents(documentId: string, version: number): Promise<ProcessingEvent[]>;
+
+  // Batch operations
+  createBatch(batch: Partial<Batch>): Promise<Batch>;
+  getBatch(id: string): Promise<Batch | null>;
+  updateBatch(id: string, updates: Partial<Batch>): Promise<void>;
+  getBatchDocuments(batchId: string): Promise<Document[]>;
+
+  // Entity registry operations
+  findRegistryEntities(userId: string, type: RegistryEntityType, match: { keys: string[]; acronyms: string[] }): Promise<RegistryEntity[]>;
+  getRegistryEntities(userId: string, options?: { type?: string; query?: string; documentId?: string }): Promise<RegistryEntity[]>;
+  getRegistryEntity(id: string): Promise<RegistryEntity | null>;
+  upsertRegistryEntity(userId: string, type: RegistryEntityType, entry: RegistryEntry, mention: RegistryMention): Promise<boolean>;
+  addToRegistryEntity(id: string, additions: Omit<RegistryEntry, 'canonicalKey' | 'name'> & { mentions: RegistryMention[] }): Promise<boolean>;
+  takeRegistryEntity(id: string): Promise<RegistryEntity | null>;
+  restoreRegistryEntity(entity: RegistryEntity): Promise<void>;
+  removeRegistryMentions(documentId: string, version?: number): Promise<void>;
+
+  // Custom entity type operations
+  getCustomEntityTypes(userId: string): Promise<CustomEntityType[]>;
+  getCustomEntityType(id: string): Promise<CustomEntityType | null>;
+  createCustomEntityType(type: Partial<CustomEntityType>): Promise<CustomEntityType>;
+  updateCustomEntityType(id: string, updates: Partial<CustomEntityType>): Promise<CustomEntityType | null>;
+  deleteCustomEntityType(id: string): Promise<void>;
+
   // Dashboard stats
   getDashboardStats(userId: string): Promise<any>;
 
   // Reports data
-  getReportsData(userId: string): Promise<any>;
+  getReportsData(userId: string, filter?: EntityValueFilter): Promise<any>;
+}
+
+// A registry entry to create or extend
+export interface RegistryEntry {
+  canonicalKey: string;
+  name: string;
+  keys: string[];
+  acronyms: string[];
+}
+
+// Records from before versioning have no version field and belong to version 1
+function versionFilter(version = 1): Record<string, any> {
+  return { version: version === 1 ? { $in: [1, null] } : version };
+}
+
+function currentVersionFilter(version: number): Record<string, any> {
+  return { currentVersion: version === 1 ? { $in: [1, null] } : version };
+}
+
+function rangeQuery(min?: number, max?: number, exclusiveMin?: boolean, exclusiveMax?: boolean): Record<string, number> {
+  return {
+    ...(min !== undefined && { [exclusiveMin ? '$gt' : '$gte']: min }),
+    ...(max !== undefined && { [exclusiveMax ? '$lt' : '$lte']: max }),
+  };
+}
+
+// Matches an entity whose normalized value falls in the filter's range. A
+// period such as "Q3" matches when it overlaps the requested dates.
+function entityValueQuery(filter: EntityValueFilter): Record<string, any> {
+  switch (filter.kind) {
+    case 'date':
+      return {
+        'normalized.kind': 'date',
+        ...(filter.to && { 'normalized.date': { $lte: filter.to } }),
+        ...(filter.from && { 'normalized.end': { $gte: filter.from } }),
+      };
+    case 'money':
+      return {
+        'normalized.kind': 'money',
+        ...(filter.currency && { 'normalized.currency': filter.currency }),
+        'normalized.amount': rangeQuery(filter.min, filter.max, filter.exclusiveMin, filter.exclusiveMax),
+      };
+    case 'quantity':
+      return {
+        'normalized.kind': 'quantity',
+        'normalized.unit': filter.unit,
+        'normalized.value': rangeQuery(filter.min, filter.max, filter.exclusiveMin, filter.exclusiveMax),
+      };
+  }
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
 }
 
 export class MongoStorage implements IStorage {
@@ -43,6 +155,12 @@ export class MongoStorage implements IStorage {
   private pages: Collection<Page>;
   private extractions: Collection<Extraction>;
   private chatMessages: Collection<ChatMessage>;
+  private jobs: Collection<Job>;
+  private batches: Collection<Batch>;
+  private documentVersions: Collection<DocumentVersion>;
+  private processingEvents: Collection<ProcessingEvent>;
+  private registryEntities: Collection<RegistryEntity>;
+  private customEntityTypes: Collection<CustomEntityType>;
 
   constructor(db: Db) {
     this.users = db.collection<User>('users');
@@ -50,6 +168,12 @@ export class MongoStorage implements IStorage {
     this.pages = db.collection<Page>('pages');
     this.extractions = db.collection<Extraction>('extractions');
     this.chatMessages = db.collection<ChatMessage>('chatMessages');
+    this.jobs = db.collection<Job>('jobs');
+    this.batches = db.collection<Batch>('batches');
+    this.documentVersions = db.collection<DocumentVersion>('documentVersions');
+    this.processingEvents = db.collection<ProcessingEvent>('processingEvents');
+    this.registryEntities = db.collection<RegistryEntity>('registryEntities');
+    this.customEntityTypes = db.collection<CustomEntityType>('customEntityTypes');
     
     // Create indexes for better performance
     this.initializeIndexes();
@@ -60,6 +184,12 @@ export class MongoStorage implements IStorage {
       // Document indexes
       await this.documents.createIndex({ userId: 1, uploadDate: -1 });
       await this.documents.createIndex({ status: 1 });
+      await this.documents.createIndex({ parentId: 1 });
+      await this.documents.createIndex({ batchId: 1 });
+      await this.documents.createIndex({ userId: 1, contentHash: 1 });
+
+      // Version indexes
+      await this.documentVersions.createIndex({ documentId: 1, version: 1 }, { unique: true });
       
       // Page indexes
       await this.pages.createIndex({ documentId: 1, pageNumber: 1 });
@@ -70,6 +200,31 @@ export class MongoStorage implements IStorage {
       // Chat message indexes
       await this.chatMessages.createIndex({ documentId: 1, createdAt: 1 });
       await this.chatMessages.createIndex({ userId: 1 });
+
+      // Job indexes
+      await this.jobs.createIndex({ status: 1, runAt: 1 });
+      await this.jobs.createIndex({ status: 1, leaseExpiresAt: 1 });
+      await this.jobs.createIndex({ documentId: 1, type: 1, status: 1 });
+      // At most one queued or running job of each type per document
+      await this.jobs.createIndex(
+        { documentId: 1, type: 1 },
+        { unique: true, partialFilterExpression: { status: { $in: ['queued', 'running'] } } }
+      );
+
+      // Processing timeline indexes
+      await this.processingEvents.createIndex({ documentId: 1, version: 1, startedAt: 1 });
+
+      // Entity registry indexes
+      await this.registryEntities.createIndex(
+        { userId: 1, type: 1, canonicalKey: 1 },
+        { unique: true, partialFilterExpression: { canonicalKey: { $exists: true } } }
+      );
+      await this.registryEntities.createIndex({ userId: 1, type: 1, keys: 1 });
+      await this.registryEntities.createIndex({ userId: 1, type: 1, acronyms: 1 });
+      await this.registryEntities.createIndex({ 'mentions.documentId': 1 });
+
+      // Custom entity type indexes
+      await this.customEntityTypes.createIndex({ userId: 1, createdAt: 1 });
     } catch (error) {
       console.error('Error creating indexes:', error);
     }
@@ -102,13 +257,13 @@ export class MongoStorage implements IStorage {
     const doc = await this.getDocument(id);
     if (!doc) return null;
 
-    const extractions = await this.getExtractions(id);
+    const extractions = await this.getExtractions(id, doc.currentVersion);
     
     // Use extractedText from document if available, otherwise get from pages
     let extractedText = doc.extractedText || '';
     
     if (!extractedText) {
-      const pages = await this.getPages(id);
+      const pages = await this.getPages(id, doc.currentVersion);
       extractedText = pages
         .map(p => p.extractedText || '')
         .filter(text => text.trim().length > 0)
@@ -140,15 +295,159 @@ export class MongoStorage implements IStorage {
       this.documents.deleteOne({ _id: objectId as any }),
       this.pages.deleteMany({ documentId: id }),
       this.extractions.deleteMany({ documentId: id }),
-      this.chatMessages.deleteMany({ documentId: id })
+      this.chatMessages.deleteMany({ documentId: id }),
+      this.jobs.deleteMany({ documentId: id }),
+      this.documentVersions.deleteMany({ documentId: id }),
+      this.processingEvents.deleteMany({ documentId: id }),
+      this.removeRegistryMentions(id)
     ]);
   }
 
+  // Matches file names, and form field names and values of the current version
   async searchDocuments(userId: string, query: string): Promise<Document[]> {
+    const pattern = new RegExp(escapeRegex(query), 'i');
+    const docs = await this.getDocuments(userId);
+    const forms = await this.extractions.find(
+      {
+        extractionType: 'form',
+        documentId: { $in: docs.map((doc) => (doc as any)._id.toString()) },
+        $or: [{ 'data.fields.value': pattern }, { 'data.fields.name': pattern }]
+      },
+      { projection: { documentId: 1, version: 1 } }
+    ).toArray();
+    const matchedForms = new Set(forms.map((form) => `${form.documentId}:${form.version ?? 1}`));
+
+    // A form match only counts if it is in the version the document shows
+    return docs.filter((doc) =>
+      pattern.test(doc.originalName) ||
+      matchedForms.has(`${(doc as any)._id.toString()}:${doc.currentVersion ?? 1}`)
+    );
+  }
+
+  // Documents whose current version has a date, amount or quantity in range
+  async searchDocumentsByValue(userId: string, filter: EntityValueFilter): Promise<Document[]> {
+    const docs = await this.getDocuments(userId);
+    const matches = await this.extractions.find(
+      {
+        extractionType: 'entities',
+        documentId: { $in: docs.map((doc) => (doc as any)._id.toString()) },
+        data: { $elemMatch: entityValueQuery(filter) }
+      },
+      { projection: { documentId: 1, version: 1 } }
+    ).toArray();
+    const matched = new Set(matches.map((match) => `${match.documentId}:${match.version ?? 1}`));
+
+    return docs.filter((doc) => matched.has(`${(doc as any)._id.toString()}:${doc.currentVersion ?? 1}`));
+  }
+
+  async getDocumentsByStatus(statuses: string[]): Promise<Document[]> {
+    return this.documents.find({ status: { $in: statuses } }).toArray();
+  }
+
+  async getChildDocuments(parentId: string): Promise<Document[]> {
+    return this.documents.find({ parentId }).sort({ originalName: 1 }).toArray();
+  }
+
+  // The earliest upload of this content, so re-uploads always point at the original
+  async findDocumentByHash(userId: string, contentHash: string): Promise<Document | null> {
+    return this.documents.findOne({ userId, contentHash }, { sort: { _id: 1 } });
+  }
+
+  // Emails that contain, reply to or are referenced by any of the given message IDs
+  async getEmailThread(userId: string, messageIds: string[]): Promise<Document[]> {
+    if (messageIds.length === 0) return [];
     return this.documents.find({
       userId,
-      originalName: { $regex: query, $options: 'i' }
-    }).sort({ uploadDate: -1 }).toArray();
+      $or: [
+        { 'metadata.email.messages.messageId': { $in: messageIds } },
+        { 'metadata.email.messages.inReplyTo': { $in: messageIds } },
+        { 'metadata.email.messages.references': { $in: messageIds } },
+      ]
+    }).sort({ 'metadata.email.date': 1 }).toArray();
+  }
+
+  async deleteProcessingResults(documentId: string, version?: number): Promise<void> {
+    await Promise.all([
+      this.pages.deleteMany({ documentId, ...versionFilter(version) }),
+      this.extractions.deleteMany({ documentId, ...versionFilter(version) }),
+      this.removeRegistryMentions(documentId, version ?? 1)
+    ]);
+  }
+
+  // Version operations
+  async createDocumentVersion(version: Partial<DocumentVersion>): Promise<DocumentVersion> {
+    const record = { uploadDate: new Date(), ...version, _id: new ObjectId() as any } as DocumentVersion;
+    await this.documentVersions.insertOne(record);
+    return record;
+  }
+
+  // Creates the record of a version unless there is one, and returns the stored
+  // record. The unique index makes concurrent calls agree on a single record.
+  async upsertDocumentVersion(version: Partial<DocumentVersion>): Promise<DocumentVersion> {
+    const { documentId, version: number, ...fields } = version;
+    const record = await this.documentVersions.findOneAndUpdate(
+      { documentId, version: number },
+      { $setOnInsert: { uploadDate: new Date(), ...fields } as any },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return record!;
+  }
+
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    return this.documentVersions.find({ documentId }).sort({ version: 1 }).toArray();
+  }
+
+  async getDocumentVersion(documentId: string, version: number): Promise<DocumentVersion | null> {
+    return this.documentVersions.findOne({ documentId, version });
+  }
+
+  // Records processing state on a version, and on the document as long as
+  // that version is still the current one
+  // Fields passed as undefined are removed, such as the failure of an earlier attempt
+  // With `statuses`, only a version in one of them is updated, so that a job
+  // still running cannot overwrite a cancellation. False when nothing matched.
+  async updateVersionState(documentId: string, version: number, updates: Partial<Document>, statuses?: string[]): Promise<boolean> {
+    const set: Record<string, any> = {};
+    const unset: Record<string, ''> = {};
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === undefined) {
+        unset[field] = '';
+      } else {
+        set[field] = value;
+      }
+    }
+    const update = Object.keys(unset).length > 0 ? { $set: set, $unset: unset } : { $set: set };
+    const status = statuses ? { status: { $in: statuses } } : {};
+
+    const [versionResult, documentResult] = await Promise.all([
+      this.documentVersions.updateOne({ documentId, version, ...status }, update),
+      this.documents.updateOne(
+        { _id: new ObjectId(documentId) as any, ...currentVersionFilter(version), ...status },
+        update
+      )
+    ]);
+    return versionResult.matchedCount + documentResult.matchedCount > 0;
+  }
+
+  // Copies a version's file, status and results onto the document. Fields the
+  // version does not have (a page count before it is processed) are removed.
+  async setCurrentVersion(documentId: string, version: DocumentVersion, versionCount?: number): Promise<Document | null> {
+    const set: Record<string, any> = { currentVersion: version.version };
+    const unset: Record<string, ''> = {};
+    for (const field of VERSIONED_FIELDS) {
+      if (version[field] === undefined || version[field] === null) {
+        unset[field] = '';
+      } else {
+        set[field] = version[field];
+      }
+    }
+    if (versionCount !== undefined) set.versionCount = versionCount;
+
+    return this.documents.findOneAndUpdate(
+      { _id: new ObjectId(documentId) as any },
+      { $set: set, $unset: unset },
+      { returnDocument: 'after' }
+    );
   }
 
   // Page operations
@@ -157,8 +456,20 @@ export class MongoStorage implements IStorage {
     return { ...page, _id: result.insertedId } as Page;
   }
 
-  async getPages(documentId: string): Promise<Page[]> {
-    return this.pages.find({ documentId }).sort({ pageNumber: 1 }).toArray();
+  async getPages(documentId: string, version?: number): Promise<Page[]> {
+    return this.pages.find({ documentId, ...versionFilter(version) }).sort({ pageNumber: 1 }).toArray();
+  }
+
+  // Page list without the (potentially large) page text
+  async getPageSummaries(documentId: string, version?: number): Promise<Page[]> {
+    return this.pages
+      .find({ documentId, ...versionFilter(version) }, { projection: { extractedText: 0 } })
+      .sort({ pageNumber: 1 })
+      .toArray();
+  }
+
+  async getPage(documentId: string, pageNumber: number, version?: number): Promise<Page | null> {
+    return this.pages.findOne({ documentId, pageNumber, ...versionFilter(version) });
   }
 
   // Extraction operations
@@ -167,12 +478,12 @@ export class MongoStorage implements IStorage {
     return { ...extraction, _id: result.insertedId } as Extraction;
   }
 
-  async getExtractions(documentId: string): Promise<Extraction[]> {
-    return this.extractions.find({ documentId }).toArray();
+  async getExtractions(documentId: string, version?: number): Promise<Extraction[]> {
+    return this.extractions.find({ documentId, ...versionFilter(version) }).toArray();
   }
 
-  async getExtraction(documentId: string, extractionType: string): Promise<Extraction | null> {
-    return this.extractions.findOne({ documentId, extractionType });
+  async getExtraction(documentId: string, extractionType: string, version?: number): Promise<Extraction | null> {
+    return this.extractions.findOne({ documentId, extractionType, ...versionFilter(version) });
   }
 
   async updateExtraction(id: string, data: any): Promise<Extraction | null> {
@@ -194,6 +505,265 @@ export class MongoStorage implements IStorage {
     return { ...message, _id: result.insertedId } as ChatMessage;
   }
 
+  // Job queue operations
+  async createJob(job: Partial<Job>): Promise<Job> {
+    const now = new Date();
+    const record = {
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: 5,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+      ...job,
+      _id: new ObjectId() as any,
+    } as Job;
+    await this.jobs.insertOne(record);
+    return record;
+  }
+
+  async getActiveJob(documentId: string, type: string): Promise<Job | null> {
+    return this.jobs.findOne({ documentId, type, status: { $in: ['queued', 'running'] } });
+  }
+
+  // Atomically leases the next runnable job. A running job whose lease has
+  // expired belongs to a worker that died or stalled, so it is claimable again.
+  async claimJob(workerId: string, leaseMs: number): Promise<Job | null> {
+    const now = new Date();
+    return this.jobs.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued', runAt: { $lte: now } },
+          { status: 'running', leaseExpiresAt: { $lt: now } },
+        ],
+      },
+      {
+        $set: {
+          status: 'running',
+          leaseOwner: workerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          heartbeatAt: now,
+          updatedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, returnDocument: 'after' }
+    );
+  }
+
+  async heartbeatJob(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const result = await this.jobs.updateOne(
+      { _id: new ObjectId(id) as any, status: 'running', leaseOwner: workerId },
+      { $set: { heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + leaseMs), updatedAt: now } }
+    );
+    return result.matchedCount === 1;
+  }
+
+  async completeJob(id: string, workerId: string): Promise<void> {
+    const now = new Date();
+    await this.jobs.updateOne(
+      { _id: new ObjectId(id) as any, status: 'running', leaseOwner: workerId },
+      {
+        $set: { status: 'completed', completedAt: now, updatedAt: now },
+        $unset: { leaseOwner: '', leaseExpiresAt: '' },
+      }
+    );
+  }
+
+  // Returns false when the lease was lost (expired or cancelled) in the meantime
+  async failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean> {
+    const now = new Date();
+    const result = await this.jobs.updateOne(
+      { _id: new ObjectId(id) as any, status: 'running', leaseOwner: workerId },
+      {
+        $set: retryAt
+          ? { status: 'queued', runAt: retryAt, lastError: error, updatedAt: now }
+          : { status: 'dead', lastError: error, completedAt: now, updatedAt: now },
+        $unset: { leaseOwner: '', leaseExpiresAt: '' },
+      }
+    );
+    return result.matchedCount === 1;
+  }
+
+  async cancelJobs(documentId: string): Promise<number> {
+    const now = new Date();
+    const result = await this.jobs.updateMany(
+      { documentId, status: { $in: ['queued', 'running'] } },
+      {
+        $set: { status: 'cancelled', completedAt: now, updatedAt: now },
+        $unset: { leaseOwner: '', leaseExpiresAt: '', 'payload.password': '' },
+      }
+    );
+    return result.modifiedCount;
+  }
+
+  // Drops the sealed password of an encrypted file once its job is done with it
+  async removeJobPassword(id: string): Promise<void> {
+    await this.jobs.updateOne({ _id: new ObjectId(id) as any }, { $unset: { 'payload.password': '' } });
+  }
+
+  // Processing timeline operations
+  async createProcessingEvent(event: Partial<ProcessingEvent>): Promise<ProcessingEvent> {
+    const record = { ...event, _id: new ObjectId() as any } as ProcessingEvent;
+    await this.processingEvents.insertOne(record);
+    return record;
+  }
+
+  async updateProcessingEvent(id: string, updates: Partial<ProcessingEvent>): Promise<void> {
+    await this.processingEvents.updateOne({ _id: new ObjectId(id) as any }, { $set: updates });
+  }
+
+  async getProcessingEvents(documentId: string, version: number): Promise<ProcessingEvent[]> {
+    return this.processingEvents.find({ documentId, version }).sort({ startedAt: 1 }).toArray();
+  }
+
+  // Batch operations
+  async createBatch(batch: Partial<Batch>): Promise<Batch> {
+    const record = { skipped: [], duplicates: [], createdAt: new Date(), ...batch, _id: new ObjectId() as any } as Batch;
+    await this.batches.insertOne(record);
+    return record;
+  }
+
+  async getBatch(id: string): Promise<Batch | null> {
+    return this.batches.findOne({ _id: new ObjectId(id) as any });
+  }
+
+  async updateBatch(id: string, updates: Partial<Batch>): Promise<void> {
+    await this.batches.updateOne({ _id: new ObjectId(id) as any }, { $set: updates });
+  }
+
+  async getBatchDocuments(batchId: string): Promise<Document[]> {
+    return this.documents.find({ batchId }).sort({ folder: 1, originalName: 1 }).toArray();
+  }
+
+  // Entity registry operations
+
+  // Entries that share a spelling with the given keys, or whose acronym is one of `acronyms`
+  async findRegistryEntities(userId: string, type: RegistryEntityType, match: { keys: string[]; acronyms: string[] }): Promise<RegistryEntity[]> {
+    return this.registryEntities.find({
+      userId,
+      type,
+      $or: [
+        { keys: { $in: match.keys } },
+        ...(match.acronyms.length ? [{ acronyms: { $in: match.acronyms } }] : [])
+      ]
+    }).sort({ createdAt: 1 }).toArray();
+  }
+
+  async getRegistryEntities(userId: string, options: { type?: string; query?: string; documentId?: string } = {}): Promise<RegistryEntity[]> {
+    const filter: Record<string, any> = { userId };
+    if (options.type) filter.type = options.type;
+    if (options.documentId) filter['mentions.documentId'] = options.documentId;
+    if (options.query) {
+      const pattern = new RegExp(escapeRegex(options.query), 'i');
+      filter.$or = [{ name: pattern }, { 'mentions.text': pattern }];
+    }
+    return this.registryEntities.find(filter).toArray();
+  }
+
+  async getRegistryEntity(id: string): Promise<RegistryEntity | null> {
+    return this.registryEntities.findOne({ _id: new ObjectId(id) as any });
+  }
+
+  // Adds a mention to the entry with the given canonical key, creating it if
+  // there is none. False when another job created it at the same moment, in
+  // which case the caller looks it up again.
+  async upsertRegistryEntity(userId: string, type: RegistryEntityType, entry: RegistryEntry, mention: RegistryMention): Promise<boolean> {
+    try {
+      await this.registryEntities.updateOne(
+        { userId, type, canonicalKey: entry.canonicalKey },
+        {
+          $setOnInsert: { name: entry.name, createdAt: new Date() },
+          $set: { updatedAt: new Date() },
+          $addToSet: {
+            keys: { $each: entry.keys },
+            acronyms: { $each: entry.acronyms },
+            mentions: mention,
+          },
+        },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) return false;
+      throw error;
+    }
+  }
+
+  // False when the entry no longer exists
+  async addToRegistryEntity(id: string, additions: Omit<RegistryEntry, 'canonicalKey' | 'name'> & { mentions: RegistryMention[] }): Promise<boolean> {
+    const result = await this.registryEntities.updateOne(
+      { _id: new ObjectId(id) as any },
+      {
+        $set: { updatedAt: new Date() },
+        $addToSet: {
+          keys: { $each: additions.keys },
+          acronyms: { $each: additions.acronyms },
+          mentions: { $each: additions.mentions },
+        },
+      }
+    );
+    return result.matchedCount > 0;
+  }
+
+  // Deletes an entry and returns it, so that of two jobs merging the same
+  // entry only one gets its mentions
+  async takeRegistryEntity(id: string): Promise<RegistryEntity | null> {
+    return this.registryEntities.findOneAndDelete({ _id: new ObjectId(id) as any });
+  }
+
+  // Puts back an entry taken for a merge that could not be completed. Should
+  // a new entry have claimed its canonical key meanwhile, it goes back
+  // without one and is still found by its keys.
+  async restoreRegistryEntity(entity: RegistryEntity): Promise<void> {
+    try {
+      await this.registryEntities.insertOne(entity);
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) throw error;
+      const { canonicalKey, ...rest } = entity;
+      await this.registryEntities.insertOne(rest as RegistryEntity);
+    }
+  }
+
+  // Without a version, removes the mentions of every version. Entries left
+  // without mentions are deleted.
+  async removeRegistryMentions(documentId: string, version?: number): Promise<void> {
+    const mention = version === undefined ? { documentId } : { documentId, ...versionFilter(version) };
+    await this.registryEntities.updateMany(
+      { 'mentions.documentId': documentId },
+      { $pull: { mentions: mention } as any }
+    );
+    await this.registryEntities.deleteMany({ mentions: { $size: 0 } });
+  }
+
+  // Custom entity type operations
+  async getCustomEntityTypes(userId: string): Promise<CustomEntityType[]> {
+    return this.customEntityTypes.find({ userId }).sort({ createdAt: 1 }).toArray();
+  }
+
+  async getCustomEntityType(id: string): Promise<CustomEntityType | null> {
+    return this.customEntityTypes.findOne({ _id: new ObjectId(id) as any });
+  }
+
+  async createCustomEntityType(type: Partial<CustomEntityType>): Promise<CustomEntityType> {
+    const record = { createdAt: new Date(), updatedAt: new Date(), ...type, _id: new ObjectId() as any } as CustomEntityType;
+    await this.customEntityTypes.insertOne(record);
+    return record;
+  }
+
+  async updateCustomEntityType(id: string, updates: Partial<CustomEntityType>): Promise<CustomEntityType | null> {
+    return this.customEntityTypes.findOneAndUpdate(
+      { _id: new ObjectId(id) as any },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+  }
+
+  async deleteCustomEntityType(id: string): Promise<void> {
+    await this.customEntityTypes.deleteOne({ _id: new ObjectId(id) as any });
+  }
+
   // Dashboard stats
   async getDashboardStats(userId: string): Promise<any> {
     const allDocs = await this.getDocuments(userId);
@@ -209,8 +779,9 @@ export class MongoStorage implements IStorage {
   }
 
   // Reports data
-  async getReportsData(userId: string): Promise<any> {
-    const allDocs = await this.getDocuments(userId);
+  async getReportsData(userId: string, filter?: EntityValueFilter): Promise<any> {
+    const allDocs = filter ? await this.searchDocumentsByValue(userId, filter) : await this.getDocuments(userId);
+    const customTypes = await this.getCustomEntityTypes(userId);
     const completedDocs = allDocs.filter(d => d.status === 'completed');
     
     // Calculate total pages and words
@@ -218,6 +789,8 @@ export class MongoStorage implements IStorage {
     let totalWords = 0;
     const entityCounts: Record<string, number> = {};
     const keywordCounts: Record<string, number> = {};
+    const entityTypeCounts: Record<string, number> = {};
+    const currencyRanges: Record<string, { count: number; min: number; max: number }> = {};
     const statusCounts: Record<string, number> = {};
     
     for (const doc of allDocs) {
@@ -227,8 +800,23 @@ export class MongoStorage implements IStorage {
       statusCounts[doc.status] = (statusCounts[doc.status] || 0) + 1;
       
       // Get extractions for word count, entities, and keywords
-      const extractions = await this.getExtractions((doc as any)._id.toString());
+      const extractions = await this.getExtractions((doc as any)._id.toString(), doc.currentVersion);
       const analysisExtraction = extractions.find(e => e.extractionType === 'analysis');
+      const entitiesExtraction = extractions.find(e => e.extractionType === 'entities');
+
+      // Amounts are not summed: a document repeats its total on every page
+      // and lists equal line items under one spelling, so no sum of the
+      // extracted amounts means anything. Each occurrence is counted instead,
+      // with the smallest and largest amount.
+      (entitiesExtraction?.data as ExtractedEntity[] | undefined)?.forEach(entity => {
+        if (entity.normalized?.kind !== 'money') return;
+        const { currency, amount } = entity.normalized;
+        const occurrences = Math.max(entity.occurrences?.length || 0, 1);
+        const range = currencyRanges[currency];
+        currencyRanges[currency] = range
+          ? { count: range.count + occurrences, min: Math.min(range.min, amount), max: Math.max(range.max, amount) }
+          : { count: occurrences, min: amount, max: amount };
+      });
       
       if (analysisExtraction && analysisExtraction.data) {
         const data = analysisExtraction.data;
@@ -251,7 +839,21 @@ export class MongoStorage implements IStorage {
           allEntities.forEach(entity => {
             entityCounts[entity] = (entityCounts[entity] || 0) + 1;
           });
+
+          (Object.keys(ENTITY_LABELS) as EntityKey[]).forEach(key => {
+            const count = data.entities[key]?.length || 0;
+            if (count > 0) {
+              entityTypeCounts[key] = (entityTypeCounts[key] || 0) + count;
+            }
+          });
         }
+
+        // Custom types are counted under their id, which is never an entity key
+        Object.entries((data.customEntities || {}) as Record<string, string[]>).forEach(([typeId, items]) => {
+          if (items.length > 0) {
+            entityTypeCounts[typeId] = (entityTypeCounts[typeId] || 0) + items.length;
+          }
+        });
         
         // Count keywords
         if (data.keywords && Array.isArray(data.keywords)) {
@@ -290,6 +892,21 @@ export class MongoStorage implements IStorage {
       .sort((a, b) => b.value - a.value)
       .slice(0, 5);
     
+    // Entities found per type, across all documents. Custom types deleted
+    // since have no label and are left out.
+    const typeLabels: Record<string, string> = { ...ENTITY_LABELS };
+    customTypes.forEach(type => {
+      typeLabels[String(type._id)] = type.name;
+    });
+    const entityTypes = Object.entries(entityTypeCounts)
+      .filter(([key]) => typeLabels[key])
+      .map(([key, count]) => ({ type: typeLabels[key], count }))
+      .sort((a, b) => b.count - a.count);
+    
+    const amountsByCurrency = Object.entries(currencyRanges)
+      .map(([currency, range]) => ({ currency, ...range }))
+      .sort((a, b) => b.count - a.count);
+    
     // Top keywords (top 10)
     const topKeywords = Object.entries(keywordCounts)
       .map(([keyword, count]) => ({ keyword, count }))
@@ -306,6 +923,8 @@ export class MongoStorage implements IStorage {
       totalWords,
       documentsOverTime,
       entityDistribution,
+      entityTypes,
+      amountsByCurrency,
       topKeywords,
       statusDistribution,
     };
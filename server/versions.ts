@@ -0,0 +1,75 @@
+import { isDuplicateKeyError, storage } from "./storage";
+import { blobStore } from "./blobs";
+import { enqueueDocumentProcessing, uniqueUploadName } from "./pipeline";
+import { VERSIONED_FIELDS, type Document, type DocumentVersion } from "@shared/mongo-schema";
+
+export interface VersionUpload {
+  data: Buffer;
+  originalName: string;
+  mimeType: string;
+  contentHash: string;
+}
+
+// Documents get version records once a second version is uploaded; until then
+// version 1 lives only on the document itself and is recorded here first.
+// Two uploads racing to record it end up with the same record.
+export async function ensureVersionHistory(doc: Document): Promise<DocumentVersion[]> {
+  const documentId = (doc as any)._id.toString();
+  const versions = await storage.getDocumentVersions(documentId);
+  if (versions.length > 0) return versions;
+
+  const fields = Object.fromEntries(
+    VERSIONED_FIELDS.filter((field) => doc[field] !== undefined).map((field) => [field, doc[field]])
+  );
+  const first = await storage.upsertDocumentVersion({
+    ...fields,
+    documentId,
+    version: 1,
+    uploadDate: doc.uploadDate,
+  });
+  return [first];
+}
+
+// Stores a new file as the next version, makes it current and queues it with
+// the options the document was last processed with. Earlier versions keep
+// their pages and extractions.
+export async function addDocumentVersion(doc: Document, upload: VersionUpload): Promise<Document | null> {
+  const documentId = (doc as any)._id.toString();
+  const versions = await ensureVersionHistory(doc);
+  let version = Math.max(...versions.map((v) => v.version)) + 1;
+
+  const filename = uniqueUploadName(upload.originalName);
+  await blobStore.put(filename, upload.data, upload.mimeType);
+  // Of two uploads picking the same number, the later one takes the next
+  let record: DocumentVersion | null = null;
+  while (!record) {
+    try {
+      record = await storage.createDocumentVersion({
+        documentId,
+        version,
+        filename,
+        originalName: upload.originalName,
+        mimeType: upload.mimeType,
+        fileSize: upload.data.length,
+        contentHash: upload.contentHash,
+        status: "pending",
+        processingProgress: 0,
+      });
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) throw error;
+      version++;
+    }
+  }
+
+  const updated = await storage.setCurrentVersion(documentId, record, version);
+  await enqueueDocumentProcessing(updated!, doc.processingOptions || {}, version);
+  console.log(`[${documentId}] Version ${version} uploaded (${upload.originalName})`);
+  return storage.getDocument(documentId);
+}
+
+export async function activateDocumentVersion(doc: Document, version: number): Promise<Document | null> {
+  const documentId = (doc as any)._id.toString();
+  const record = await storage.getDocumentVersion(documentId, version);
+  if (!record) return null;
+  return storage.setCurrentVersion(documentId, record);
+}
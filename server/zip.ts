@@ -0,0 +1,112 @@
+import yauzl from "yauzl";
+import type { Readable } from "stream";
+
+// Upper bound for a single decompressed entry, so a crafted archive cannot exhaust memory
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+async function readStream(stream: Readable, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      throw new Error(`Archive entry exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Reads the named entries of an in-memory ZIP file (the container of DOCX and
+// ODT documents). Entries that are not present are missing from the result.
+export async function readZipEntries(
+  data: Buffer,
+  names: string[],
+  maxBytes = MAX_ENTRY_BYTES
+): Promise<Map<string, Buffer>> {
+  const zip = await yauzl.fromBufferPromise(data, { lazyEntries: true });
+  const entries = new Map<string, Buffer>();
+  try {
+    for await (const entry of zip.eachEntry()) {
+      if (!names.includes(entry.fileName)) continue;
+      if (entry.uncompressedSize > maxBytes) {
+        throw new Error(`Archive entry ${entry.fileName} exceeds ${maxBytes} bytes`);
+      }
+      entries.set(entry.fileName, await readStream(await zip.openReadStreamPromise(entry), maxBytes));
+      if (entries.size === names.length) break;
+    }
+  } finally {
+    zip.close();
+  }
+  return entries;
+}
+
+export interface ArchiveLimits {
+  maxEntries: number;
+  maxTotalBytes: number;
+  maxEntryBytes: number;
+  // Uncompressed to compressed size; far beyond what real documents reach
+  maxCompressionRatio: number;
+}
+
+export interface ExpandedArchive {
+  // Paths of the extracted entries inside the archive, always with forward slashes
+  extracted: string[];
+  // Entries that were not extracted because `accept` turned them down
+  skipped: string[];
+}
+
+function isPlatformJunk(entryPath: string): boolean {
+  return entryPath.startsWith("__MACOSX/") || entryPath.split("/").some((part) => part.startsWith("."));
+}
+
+// Hands the contents of each entry of a ZIP archive that `accept` wants to
+// `onEntry`, one at a time. Every limit is checked against the central
+// directory before any entry is read, and again while decompressing, since
+// declared sizes can lie. Entry names are only passed on, never used as paths.
+export async function expandZipArchive(
+  data: Buffer,
+  limits: ArchiveLimits,
+  accept: (entryPath: string) => boolean,
+  onEntry: (entryPath: string, content: Buffer) => Promise<void>
+): Promise<ExpandedArchive> {
+  // yauzl rejects absolute and "../" entry names as it reads the central directory
+  const zip = await yauzl.fromBufferPromise(data, { lazyEntries: true, autoClose: false });
+  try {
+    if (zip.entryCount > limits.maxEntries) {
+      throw new Error(`Archive has ${zip.entryCount} entries; the limit is ${limits.maxEntries}`);
+    }
+
+    const selected: yauzl.Entry[] = [];
+    const skipped: string[] = [];
+    let totalBytes = 0;
+    for await (const entry of zip.eachEntry()) {
+      if (entry.fileName.endsWith("/") || isPlatformJunk(entry.fileName)) continue;
+      if (entry.isEncrypted() || !accept(entry.fileName)) {
+        skipped.push(entry.fileName);
+        continue;
+      }
+      if (entry.uncompressedSize > limits.maxEntryBytes) {
+        throw new Error(`Archive entry ${entry.fileName} exceeds ${limits.maxEntryBytes} bytes`);
+      }
+      if (entry.uncompressedSize > limits.maxCompressionRatio * Math.max(entry.compressedSize, 1)) {
+        throw new Error(`Archive entry ${entry.fileName} is compressed suspiciously well`);
+      }
+      totalBytes += entry.uncompressedSize;
+      if (totalBytes > limits.maxTotalBytes) {
+        throw new Error(`Archive contents exceed ${limits.maxTotalBytes} bytes`);
+      }
+      selected.push(entry);
+    }
+
+    for (const entry of selected) {
+      // readStream stops at the declared size, however much the entry really inflates to
+      const content = await readStream(await zip.openReadStreamPromise(entry), entry.uncompressedSize);
+      await onEntry(entry.fileName, content);
+    }
+    return { extracted: selected.map((entry) => entry.fileName), skipped };
+  } finally {
+    zip.close();
+  }
+}
@@ -0,0 +1,40 @@
+import type { DocumentAnalysis } from "./mongo-schema";
+
+export type EntityKey = keyof DocumentAnalysis["entities"];
+
+// Which list of `DocumentAnalysis.entities` each `ExtractedEntity.type` goes in
+export const ENTITY_TYPE_KEYS: Record<string, EntityKey> = {
+  person: "persons",
+  organization: "organizations",
+  location: "locations",
+  date: "dates",
+  money: "money",
+  email: "emails",
+  phone: "phones",
+  url: "urls",
+  iban: "ibans",
+  bic: "bics",
+  card_number: "cardNumbers",
+  tax_id: "taxIds",
+  postal_code: "postalCodes",
+  percentage: "percentages",
+  quantity: "quantities",
+};
+
+export const ENTITY_LABELS: Record<EntityKey, string> = {
+  persons: "People",
+  organizations: "Organizations",
+  locations: "Locations",
+  dates: "Dates",
+  money: "Amounts",
+  emails: "Emails",
+  phones: "Phone numbers",
+  urls: "URLs",
+  ibans: "IBANs",
+  bics: "BIC / SWIFT codes",
+  cardNumbers: "Card numbers",
+  taxIds: "VAT and tax IDs",
+  postalCodes: "Postal codes",
+  percentages: "Percentages",
+  quantities: "Quantities",
+};
@@ -0,0 +1,11 @@
+import type { FailureReason } from "./mongo-schema";
+
+export const FAILURE_REASON_LABELS: Record<FailureReason, string> = {
+  encrypted: "Password protected",
+  corrupt: "Corrupt or unreadable file",
+  no_text: "No text found",
+  timeout: "Timed out",
+  ai_provider: "AI provider failure",
+  storage: "Storage failure",
+  unknown: "Unexpected error",
+};
@@ -0,0 +1,82 @@
+// Formats the processing pipeline has an extractor for
+export type DocumentFormat =
+  | "pdf"
+  | "docx"
+  | "odt"
+  | "rtf"
+  | "html"
+  | "markdown"
+  | "text"
+  | "image"
+  | "spreadsheet"
+  | "email";
+
+// Accepted upload types, keyed by MIME type in the shape react-dropzone's `accept` expects
+export const SUPPORTED_UPLOAD_TYPES: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/vnd.oasis.opendocument.text": [".odt"],
+  "application/rtf": [".rtf"],
+  "text/rtf": [".rtf"],
+  "text/html": [".html", ".htm"],
+  "text/markdown": [".md", ".markdown"],
+  "text/plain": [".txt"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+  "application/vnd.ms-excel": [".xls"],
+  "text/csv": [".csv"],
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/tiff": [".tif", ".tiff"],
+  "message/rfc822": [".eml"],
+  "application/vnd.ms-outlook": [".msg"],
+  "application/mbox": [".mbox"],
+};
+
+// ZIP archives are expanded on upload into one document per supported file
+export const ARCHIVE_UPLOAD_TYPES: Record<string, string[]> = {
+  "application/zip": [".zip"],
+  "application/x-zip-compressed": [".zip"],
+};
+
+export const SUPPORTED_FORMATS_LABEL =
+  "PDF, Word (DOCX), ODT, RTF, HTML, Markdown, plain text, Excel (XLSX, XLS), CSV, PNG, JPEG, TIFF, email (EML, MSG, MBOX)";
+
+export const FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: "PDF",
+  docx: "Word",
+  odt: "OpenDocument",
+  rtf: "RTF",
+  html: "HTML",
+  markdown: "Markdown",
+  text: "Plain text",
+  image: "Image",
+  spreadsheet: "Spreadsheet",
+  email: "Email",
+};
+
+export function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot).toLowerCase();
+}
+
+// Browsers and OSes disagree on MIME types for Markdown and RTF (often sending
+// an empty type or application/octet-stream), so the extension is enough.
+export function isSupportedUpload(name: string, mimeType: string): boolean {
+  const extension = fileExtension(name);
+  return Object.entries(SUPPORTED_UPLOAD_TYPES).some(
+    ([type, extensions]) => type === mimeType || extensions.includes(extension)
+  );
+}
+
+// For files that arrive without a MIME type of their own, such as archive entries
+export function mimeTypeFromName(name: string): string {
+  const extension = fileExtension(name);
+  const match = Object.entries(SUPPORTED_UPLOAD_TYPES).find(([, extensions]) =>
+    extensions.includes(extension)
+  );
+  return match ? match[0] : "application/octet-stream";
+}
+
+export function isArchiveUpload(name: string, mimeType: string): boolean {
+  return fileExtension(name) === ".zip" || Object.keys(ARCHIVE_UPLOAD_TYPES).includes(mimeType);
+}
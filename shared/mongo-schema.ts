@@ -1,5 +1,33 @@
 import { z } from "zod";
 
+// What happens when a user uploads a file whose content they uploaded before:
+// reject it, link to the existing document, or process it again as a new
+// version of the existing document
+export const DuplicatePolicySchema = z.enum(["reject", "link", "new"]);
+
+export type DuplicatePolicy = z.infer<typeof DuplicatePolicySchema>;
+
+// Why processing of a document failed; "unknown" covers anything unclassified
+export const FailureReasonSchema = z.enum([
+  "encrypted",
+  "corrupt",
+  "no_text",
+  "timeout",
+  "ai_provider",
+  "storage",
+  "unknown",
+]);
+
+export const ProcessingFailureSchema = z.object({
+  reason: FailureReasonSchema,
+  // Shown to the user
+  message: z.string(),
+  // Whether processing the same file again may succeed
+  retryable: z.boolean(),
+  // The underlying error, for troubleshooting
+  detail: z.string().optional(),
+});
+
 export const UserSchema = z.object({
   _id: z.string(),
   email: z.string().optional(),
@@ -7,6 +35,7 @@ export const UserSchema = z.object({
   lastName: z.string().optional(),
   profileImageUrl: z.string().optional(),
   role: z.string().default("user"),
+  duplicatePolicy: DuplicatePolicySchema.optional(), // "link" when not set
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date()),
 });
@@ -17,21 +46,74 @@ export const DocumentSchema = z.object({
   filename: z.string(),
   originalName: z.string(),
   mimeType: z.string(),
+  // Detected from the file content when processing starts (see shared/file-types.ts)
+  format: z.string().optional(),
   fileSize: z.number(),
+  // SHA-256 of the file, used to recognise re-uploads of the same content
+  contentHash: z.string().optional(),
   status: z.string().default("pending"),
   uploadDate: z.date().default(() => new Date()),
   processedAt: z.date().optional(),
   pageCount: z.number().optional(),
   metadata: z.any().optional(),
   processingProgress: z.number().optional(),
+  processingOptions: z.any().optional(),
   extractedText: z.string().optional(),
+  // Set when status is "error", and on "needs_password" to say why the
+  // password is asked for (missing or incorrect)
+  failure: ProcessingFailureSchema.optional(),
+  // Set on documents unpacked from another one, such as email attachments
+  parentId: z.string().optional(),
+  // Set on documents extracted from an uploaded ZIP archive, together with the
+  // folder the file was in inside the archive ("" for the archive root)
+  batchId: z.string().optional(),
+  folder: z.string().optional(),
+  // The file, status and results above are those of the current version;
+  // documents from before versioning have neither field and are version 1
+  currentVersion: z.number().optional(),
+  versionCount: z.number().optional(),
+});
+
+// Fields of a Document that describe one version of its file. Each version
+// keeps its own copy, and making a version current copies them back.
+const versionedFields = {
+  filename: true,
+  originalName: true,
+  mimeType: true,
+  format: true,
+  fileSize: true,
+  contentHash: true,
+  status: true,
+  processedAt: true,
+  pageCount: true,
+  metadata: true,
+  processingProgress: true,
+  processingOptions: true,
+  extractedText: true,
+  failure: true,
+} as const;
+
+export const VERSIONED_FIELDS = Object.keys(versionedFields) as (keyof typeof versionedFields)[];
+
+export const DocumentVersionSchema = DocumentSchema.pick(versionedFields).extend({
+  _id: z.string(),
+  documentId: z.string(),
+  version: z.number(),
+  uploadDate: z.date().default(() => new Date()),
 });
 
 export const PageSchema = z.object({
   _id: z.string(),
   documentId: z.string(),
+  // Document version the page belongs to; 1 when not set
+  version: z.number().optional(),
   pageNumber: z.number(),
   extractedText: z.string().optional(),
+  // Offsets of this page within the document's full extracted text
+  charStart: z.number().optional(),
+  charEnd: z.number().optional(),
+  // "text" when read from the file's text, "ocr" when recognised from the page image
+  extractionMethod: z.string().optional(),
   ocrConfidence: z.number().optional(),
   createdAt: z.date().default(() => new Date()),
 });
@@ -39,6 +121,8 @@ export const PageSchema = z.object({
 export const ExtractionSchema = z.object({
   _id: z.string(),
   documentId: z.string(),
+  // Document version the extraction was made from; 1 when not set
+  version: z.number().optional(),
   extractionType: z.string(),
   data: z.any(),
   processedAt: z.date().default(() => new Date()),
@@ -51,14 +135,178 @@ export const ChatMessageSchema = z.object({
   role: z.string(),
   content: z.string(),
   citations: z.any().optional(),
+  // Document version that was current when the message was sent
+  version: z.number().optional(),
+  createdAt: z.date().default(() => new Date()),
+});
+
+export const JobSchema = z.object({
+  _id: z.string(),
+  type: z.string(),
+  documentId: z.string(),
+  userId: z.string(),
+  status: z.string().default("queued"),
+  payload: z.any().optional(),
+  attempts: z.number().default(0),
+  maxAttempts: z.number().default(5),
+  runAt: z.date().default(() => new Date()),
+  leaseOwner: z.string().optional(),
+  leaseExpiresAt: z.date().optional(),
+  heartbeatAt: z.date().optional(),
+  lastError: z.string().optional(),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+  completedAt: z.date().optional(),
+});
+
+// Stages of processDocument, in order. AI enhancement runs in the background
+// and may still be going after the document is completed.
+export const ProcessingStageSchema = z.enum(["parse", "pages", "nlp", "analysis", "ai"]);
+
+// One stage of one processing attempt. Written as "running" when the stage
+// starts and completed with its outcome and timing when it ends.
+export const ProcessingEventSchema = z.object({
+  _id: z.string(),
+  documentId: z.string(),
+  version: z.number(),
+  attempt: z.number(),
+  stage: ProcessingStageSchema,
+  outcome: z.enum(["running", "success", "error", "cancelled"]),
+  startedAt: z.date(),
+  endedAt: z.date().optional(),
+  durationMs: z.number().optional(),
+  error: z.string().optional(),
+  reason: FailureReasonSchema.optional(),
+  // Stage-specific counts, such as the number of pages or entities found
+  details: z.record(z.any()).optional(),
+});
+
+// One uploaded ZIP archive; its documents refer to it through batchId
+export const BatchSchema = z.object({
+  _id: z.string(),
+  userId: z.string(),
+  archiveName: z.string(),
+  documentCount: z.number(),
+  // Archive entries that were not turned into documents (unsupported types)
+  skipped: z.array(z.string()).default([]),
+  // Entries with the same content as an existing document, under the reject and link policies
+  duplicates: z.array(z.object({ path: z.string(), documentId: z.string() })).default([]),
+  createdAt: z.date().default(() => new Date()),
+});
+
+// Where one spelling of a registry entity appears in one version of a document
+export const RegistryMentionSchema = z.object({
+  documentId: z.string(),
+  version: z.number(),
+  text: z.string(),
+  pageNumbers: z.array(z.number()),
+  count: z.number(),
+});
+
+// One person, organization or place across a user's documents, with the
+// spelling variants that were merged into it ("IBM", "International Business
+// Machines Corp.")
+export const RegistryEntitySchema = z.object({
+  _id: z.string(),
+  userId: z.string(),
+  type: z.enum(["person", "organization", "location"]),
+  // The spelling it was first found under; pages show the most common one
+  name: z.string(),
+  // The normalized spelling it was created for, unique per user and type
+  canonicalKey: z.string().optional(),
+  // Normalized spellings, and the acronyms of multi-word ones
+  keys: z.array(z.string()),
+  acronyms: z.array(z.string()).default([]),
+  mentions: z.array(RegistryMentionSchema).default([]),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+export const CustomEntityColorSchema = z.enum(["blue", "green", "amber", "rose", "violet", "cyan", "orange", "slate"]);
+
+// An entity type a user defines for their own vocabulary (product codes,
+// project names, clients), found by its terms and regex patterns
+export const CustomEntityTypeSchema = z.object({
+  _id: z.string(),
+  userId: z.string(),
+  name: z.string().trim().min(1).max(60),
+  color: CustomEntityColorSchema.default("blue"),
+  // Matched as whole words
+  terms: z.array(z.string().trim().min(1).max(200)).max(50000).default([]),
+  patterns: z.array(z.string().min(1).max(200)).max(20).default([]),
+  caseSensitive: z.boolean().default(false),
   createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
 });
 
+// Settings a user can change themselves
+export const UserPreferencesSchema = UserSchema.pick({ duplicatePolicy: true }).strict();
+
 export type User = z.infer<typeof UserSchema>;
 export type Document = z.infer<typeof DocumentSchema>;
 export type Page = z.infer<typeof PageSchema>;
 export type Extraction = z.infer<typeof ExtractionSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type Job = z.infer<typeof JobSchema>;
+export type Batch = z.infer<typeof BatchSchema>;
+export type DocumentVersion = z.infer<typeof DocumentVersionSchema>;
+export type ProcessingStage = z.infer<typeof ProcessingStageSchema>;
+export type ProcessingEvent = z.infer<typeof ProcessingEventSchema>;
+export type FailureReason = z.infer<typeof FailureReasonSchema>;
+export type ProcessingFailure = z.infer<typeof ProcessingFailureSchema>;
+export type RegistryMention = z.infer<typeof RegistryMentionSchema>;
+export type RegistryEntity = z.infer<typeof RegistryEntitySchema>;
+export type RegistryEntityType = RegistryEntity["type"];
+export type CustomEntityType = z.infer<typeof CustomEntityTypeSchema>;
+export type CustomEntityColor = z.infer<typeof CustomEntityColorSchema>;
+
+// Job lifecycle: queued -> running -> completed, or back to queued with a
+// backoff delay on failure until maxAttempts is reached and the job is dead.
+// Queued and running jobs can also be cancelled by the document owner.
+export type JobStatus = "queued" | "running" | "completed" | "dead" | "cancelled";
+
+// Pipeline configuration that can be chosen when a document is reprocessed
+export const ProcessingOptionsSchema = z.object({
+  aiEnhancement: z.boolean().optional(),
+  tableDetection: z.boolean().optional(),
+  // "auto" only OCRs pages without a usable text layer
+  ocr: z.enum(["auto", "always", "never"]).optional(),
+});
+
+export type ProcessingOptions = z.infer<typeof ProcessingOptionsSchema>;
+
+// Body of PATCH /api/documents/:id/form: new values by field name
+export const FormFieldValuesSchema = z.object({
+  values: z.record(z.string().max(10000)),
+}).strict();
+
+// Body of POST /api/documents/:id/password
+export const DocumentPasswordSchema = z.object({
+  password: z.string().min(1).max(1024),
+}).strict();
+
+// Body of POST /api/entity-types; PATCH takes any of the fields
+export const CustomEntityTypeInputSchema = CustomEntityTypeSchema.pick({
+  name: true,
+  color: true,
+  terms: true,
+  patterns: true,
+  caseSensitive: true,
+}).strict();
+
+// Pushed to the document owner's browser over the /ws socket as processing
+// moves along. `status` and `processingProgress` are the values just saved.
+// `updated` means the extractions of a processed document changed.
+export interface DocumentEvent {
+  type: "queued" | "stage" | "progress" | "completed" | "error" | "cancelled" | "needs_password" | "updated";
+  documentId: string;
+  version: number;
+  status: string;
+  processingProgress?: number;
+  stage?: ProcessingStage;
+  error?: string;
+  at: string;
+}
 
 // Document Analysis Type for NLP Extractions
 export interface DocumentAnalysis {
@@ -70,7 +318,17 @@ export interface DocumentAnalysis {
     money: string[];
     emails: string[];
     phones: string[];
+    urls: string[];
+    ibans: string[];
+    bics: string[];
+    cardNumbers: string[];
+    taxIds: string[];
+    postalCodes: string[];
+    percentages: string[];
+    quantities: string[];
   };
+  // Matches of the user's custom entity types, by type id
+  customEntities?: Record<string, string[]>;
   keywords: string[];
   summary: string;
   tables: any[];
@@ -89,12 +347,149 @@ export interface ExtractedEntity {
   type: string;
   text: string;
   confidence: number;
+  // Where the entity appears; saved in the `entities` extraction
+  occurrences?: EntityOccurrence[];
+  // Dates, amounts and quantities as values that can be compared
+  normalized?: NormalizedValue;
+  // Set on entities of type "custom"
+  customTypeId?: string;
+}
+
+// Dates are ISO days; periods such as "Q3 2024" end on `end`, single days
+// have `end` equal to `date`. Quantities use "%" for percentages.
+export type NormalizedValue =
+  | { kind: "date"; date: string; end: string }
+  | { kind: "money"; amount: number; currency: string }
+  | { kind: "quantity"; value: number; unit: string };
+
+// A range of normalized values to search for, read from queries such as
+// "amount > 10,000" or "dates in Q3"
+export type EntityValueFilter =
+  | { kind: "date"; from?: string; to?: string }
+  | { kind: "money"; currency?: string; min?: number; max?: number; exclusiveMin?: boolean; exclusiveMax?: boolean }
+  | { kind: "quantity"; unit: string; min?: number; max?: number; exclusiveMin?: boolean; exclusiveMax?: boolean };
+
+// Offsets are into the document's full text, like a page's charStart/charEnd
+export interface EntityOccurrence {
+  start: number;
+  end: number;
+  pageNumber: number;
 }
 
 export interface ExtractedTable {
   headers: string[];
   rows: string[][];
   confidence: number;
+  // "native" tables come from the file's own table markup, "detected" ones from text heuristics
+  source?: "native" | "detected";
+  // Sheet name, for tables read from spreadsheets
+  name?: string;
+  // Typed cell values parallel to `rows`, for sources that know cell types
+  cells?: TableCellValue[][];
+  // Number of data rows in the source when only the first rows were kept
+  totalRows?: number;
+}
+
+export interface TableCellValue {
+  type: "string" | "number" | "boolean" | "date" | "error" | "empty";
+  value: string | number | boolean | null; // dates as ISO 8601 strings
+}
+
+// Headings kept by extractors for formats with document structure
+export interface DocumentHeading {
+  level: number; // 1 = top level
+  text: string;
+  pageNumber: number;
+}
+
+// Data of the "structure" extraction
+export interface DocumentStructure {
+  headings: DocumentHeading[];
+}
+
+// Stored as Document.metadata.pdf, from the document information dictionary
+// and XMP metadata. Dates are ISO 8601.
+export interface PdfMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string; // the application the document was made in
+  producer?: string; // the application that wrote the PDF
+  creationDate?: string;
+  modificationDate?: string;
+  pdfVersion?: string;
+  language?: string;
+}
+
+// One bookmark; entries without a page point at a URL or at nothing
+export interface OutlineEntry {
+  title: string;
+  pageNumber?: number;
+  url?: string;
+  children: OutlineEntry[];
+}
+
+// A link annotation: to a web address or to another page of the document
+export interface DocumentLink {
+  pageNumber: number;
+  url?: string;
+  targetPage?: number;
+}
+
+// One fillable field of a PDF form. Checkboxes are "Yes" or "No"; radio
+// groups and choice fields hold the selected option, or "" when none is.
+export interface FormField {
+  name: string;
+  type: "text" | "checkbox" | "radio" | "choice" | "signature";
+  value: string;
+  pageNumber?: number;
+  // Allowed values of radio groups and choice fields
+  options?: string[];
+  // The value read from the file, kept once a user has edited the field
+  originalValue?: string;
+}
+
+// Data of the "form" extraction
+export interface DocumentForm {
+  fields: FormField[];
+}
+
+// Data of the "navigation" extraction
+export interface DocumentNavigation {
+  outline: OutlineEntry[];
+  links: DocumentLink[];
+}
+
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface EmailHeaders {
+  from: EmailAddress[];
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  date?: string; // ISO 8601
+  subject?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  // Unsupported attachments are listed but not turned into documents
+  supported: boolean;
+}
+
+// Stored as Document.metadata.email. The top-level headers are those of the
+// first message; an mbox file lists all of its messages in `messages`.
+export interface EmailMetadata extends EmailHeaders {
+  messages: EmailHeaders[];
+  attachments: EmailAttachment[];
 }
 
 // Reports Data Type
@@ -104,6 +499,99 @@ export interface ReportsData {
   totalWords: number;
   documentsOverTime: Array<{ date: string; count: number }>;
   entityDistribution: Array<{ name: string; value: number }>;
+  entityTypes: Array<{ type: string; count: number }>;
+  // Occurrences of amounts in each currency, with the smallest and largest
+  amountsByCurrency: Array<{ currency: string; count: number; min: number; max: number }>;
   topKeywords: Array<{ keyword: string; count: number }>;
   statusDistribution: Array<{ status: string; count: number }>;
 }
+
+// Entity registry, counting only the current version of each document
+export interface RegistryEntitySummary {
+  _id: string;
+  type: RegistryEntityType;
+  name: string;
+  // Every spelling found, including the name
+  aliases: string[];
+  documentCount: number;
+  mentionCount: number;
+}
+
+export interface RegistryEntityDocument {
+  documentId: string;
+  originalName: string;
+  format?: string;
+  uploadDate?: Date;
+  // The spellings used in this document
+  variants: string[];
+  pageNumbers: number[];
+  count: number;
+}
+
+export interface RegistryEntityDetail extends RegistryEntitySummary {
+  documents: RegistryEntityDocument[];
+}
+
+// Document comparison
+export interface TextSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+// One aligned paragraph. Changed paragraphs carry a sentence- and word-level
+// diff in `segments`; the others are entirely equal, inserted or deleted.
+export interface ParagraphDiff {
+  type: "equal" | "insert" | "delete" | "change";
+  left?: string;
+  right?: string;
+  segments: TextSegment[];
+}
+
+export interface SetDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface ValueChange {
+  from: string;
+  to: string;
+  // The changed paragraph on the right-hand side, for context
+  context: string;
+}
+
+export interface ValueDiff extends SetDiff {
+  changed: ValueChange[];
+}
+
+export interface TableDiff {
+  name?: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  headers: SetDiff;
+  addedRows: string[][];
+  removedRows: string[][];
+}
+
+export interface ComparisonSide {
+  documentId: string;
+  version: number;
+  originalName: string;
+  uploadDate?: Date;
+}
+
+export interface DocumentComparison {
+  left: ComparisonSide;
+  right: ComparisonSide;
+  paragraphs: ParagraphDiff[];
+  parties: SetDiff;
+  amounts: ValueDiff;
+  dates: ValueDiff;
+  entities: Record<keyof DocumentAnalysis["entities"], SetDiff>;
+  keywords: SetDiff;
+  tables: TableDiff[];
+  statistics: {
+    unchanged: number;
+    changed: number;
+    inserted: number;
+    deleted: number;
+  };
+}